@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { CatalystClient } from '@/lib/catalyst/client';
+import { getStoredDetails } from '@/lib/catalyst/json-storage';
 import { BigCommerceClient } from '@/lib/bigcommerce/client';
 import { AIContentGenerator } from '@/lib/ai/content-generator';
+import { assessContent } from '@/lib/ai/quality';
+import { checkConfigOverrides, resolveRegenerationConfig } from '@/lib/jobs/config-history';
 
 export async function POST(request: NextRequest) {
   try {
-    const { productId } = await request.json();
+    const { productId, config: configOverrides } = await request.json();
 
     if (!productId) {
       return NextResponse.json(
@@ -14,6 +17,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const invalidConfig = checkConfigOverrides(configOverrides);
+    if (invalidConfig) {
+      return NextResponse.json(
+        { error: invalidConfig },
+        { status: 400 }
+      );
+    }
+
     console.log(`Testing Catalyst integration for product ${productId}...`);
 
     // Get product from BigCommerce
@@ -30,18 +41,27 @@ export async function POST(request: NextRequest) {
 
     console.log(`Found product: ${product.name}`);
 
-    // Generate AI content
+    // Generate AI content with the config the product was last generated with, unless overridden
+    const { config, source: configSource } = await resolveRegenerationConfig(
+      product,
+      getStoredDetails(product.productId),
+      configOverrides
+    );
     const generator = new AIContentGenerator();
-    const aiContent = await generator.generateContent(product, {
-      family: 'community',
-      behavior: 'community-friendly',
-      templateType: 'community-standard',
-      aiModel: 'gpt-4',
-      validation: 'moderate'
-    });
+    const aiContent = await generator.generateContent(product, config);
 
     console.log(`Generated AI content for: ${product.name}`);
 
+    assessContent(aiContent, product, config);
+    const validation = aiContent.metadata.validation!;
+
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Generated content failed validation', validation },
+        { status: 422 }
+      );
+    }
+
     // Test Catalyst connection
     const catalyst = new CatalystClient();
     const connectionTest = await catalyst.testConnection();
@@ -65,7 +85,11 @@ export async function POST(request: NextRequest) {
       aiContent: {
         generated: true,
         confidence: aiContent.metadata.confidence,
-        template: aiContent.metadata.template
+        qualityScore: aiContent.metadata.qualityScore,
+        template: aiContent.metadata.template,
+        config,
+        configSource,
+        validation
       },
       catalyst: {
         connectionTest,
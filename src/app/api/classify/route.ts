@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Product, TemplateType } from '@/types/content';
+import { fishClassifier } from '@/lib/classification/classifier';
+
+// Preview of how an auto-classified job would treat each product
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const categories = searchParams.get('categories');
+
+    const query = categories ? `?categories=${categories}` : '';
+    const response = await fetch(`${request.nextUrl.origin}/api/products${query}`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch products');
+    }
+
+    const products: Product[] = fishClassifier.classifyAll(await response.json());
+
+    // Products in several selected categories are only processed once
+    const seen = new Set<number>();
+    const uniqueProducts = products.filter(product => {
+      if (seen.has(product.productId)) return false;
+      seen.add(product.productId);
+      return true;
+    });
+
+    const templateCounts: Partial<Record<TemplateType, number>> = {};
+    for (const product of uniqueProducts) {
+      const template = product.classification!.templateType;
+      templateCounts[template] = (templateCounts[template] || 0) + 1;
+    }
+
+    return NextResponse.json({
+      total: uniqueProducts.length,
+      templateCounts,
+      products: uniqueProducts.map(product => ({
+        productId: product.productId,
+        name: product.name,
+        categories: product.categories,
+        classification: product.classification
+      }))
+    });
+  } catch (error) {
+    console.error('Error classifying products:', error);
+    return NextResponse.json(
+      { error: 'Failed to classify products' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ContentConfig, JobStatus, ProcessingJob } from '@/types/content';
+import { checkConfigOverrides } from '@/lib/jobs/config-history';
+import { jobRunner } from '@/lib/jobs/runner';
+import { jobStore } from '@/lib/jobs/store';
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const parentJob = await jobStore.getJob(id);
+
+    if (!parentJob) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!FINISHED_STATUSES.includes(parentJob.status)) {
+      return NextResponse.json(
+        { error: 'Failed products can only be retried once the job has finished' },
+        { status: 409 }
+      );
+    }
+
+    // The body is optional; an override config lets the retry use e.g. another model
+    const body = await request.json().catch(() => ({}));
+    const invalidConfig = checkConfigOverrides(body.config);
+    if (invalidConfig) {
+      return NextResponse.json(
+        { error: invalidConfig },
+        { status: 400 }
+      );
+    }
+    const configOverrides: Partial<ContentConfig> = body.config || {};
+
+    const failedProductIds = new Set(parentJob.errors.map(error => error.productId));
+    const products = parentJob.products.filter(product => failedProductIds.has(product.productId));
+
+    if (products.length === 0) {
+      return NextResponse.json(
+        { error: 'Job has no failed products to retry' },
+        { status: 400 }
+      );
+    }
+
+    // The retry spends from the same budget, so it only gets what the parent has left
+    const budget = parentJob.budget === undefined ? undefined : parentJob.budget - (parentJob.progress.cost ?? 0);
+    if (budget !== undefined && budget <= 0) {
+      return NextResponse.json(
+        { error: 'Job has no budget left to retry failed products' },
+        { status: 409 }
+      );
+    }
+
+    console.log(`Retrying ${products.length} failed products from job ${parentJob.id}`);
+
+    const retryJob: ProcessingJob = await jobStore.createJob({
+      categories: parentJob.categories,
+      products,
+      config: { ...parentJob.config, ...configOverrides },
+      batchSize: parentJob.batchSize,
+      concurrent: parentJob.concurrent,
+      retries: parentJob.retries,
+      budget,
+      forceRegenerate: parentJob.forceRegenerate,
+      status: 'pending',
+      progress: {
+        total: products.length,
+        completed: 0,
+        failed: 0,
+        percentage: 0
+      },
+      startedAt: new Date().toISOString(),
+      errors: [],
+      parentJobId: parentJob.id
+    });
+
+    await jobRunner.start(retryJob);
+
+    return NextResponse.json(retryJob, { status: 201 });
+  } catch (error) {
+    console.error('Error retrying failed products:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry failed products' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,35 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ProcessingJob } from '@/types/content';
-
-// In-memory storage for demo (replace with Supabase in production)
-// This would normally import from a shared store
-declare global {
-  var jobs: ProcessingJob[] | undefined;
-}
-
-const getJobs = (): ProcessingJob[] => {
-  if (!global.jobs) {
-    global.jobs = [];
-  }
-  return global.jobs;
-};
+import { jobRunner } from '@/lib/jobs/runner';
+import { jobStore } from '@/lib/jobs/store';
+import { isOverBudget } from '@/lib/ai/pricing';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const { id } = await params;
-  const jobs = getJobs();
-  const job = jobs.find(j => j.id === id);
+  try {
+    const { id } = await params;
+    const job = await jobStore.getJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
 
-  if (!job) {
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error('Error fetching job:', error);
     return NextResponse.json(
-      { error: 'Job not found' },
-      { status: 404 }
+      { error: 'Failed to fetch job' },
+      { status: 500 }
     );
   }
-
-  return NextResponse.json(job);
 }
 
 export async function PATCH(
@@ -38,10 +34,9 @@ export async function PATCH(
 ) {
   try {
     const { id } = await params;
-    const jobs = getJobs();
-    const jobIndex = jobs.findIndex(j => j.id === id);
+    const job = await jobStore.getJob(id);
 
-    if (jobIndex === -1) {
+    if (!job) {
       return NextResponse.json(
         { error: 'Job not found' },
         { status: 404 }
@@ -49,15 +44,56 @@ export async function PATCH(
     }
 
     const body = await request.json();
-    const { status } = body;
+    const { status, budget } = body;
+
+    // null removes the budget
+    if (budget !== undefined) {
+      if (budget !== null && !(typeof budget === 'number' && budget > 0)) {
+        return NextResponse.json(
+          { error: 'Budget must be a positive number of dollars, or null to remove it' },
+          { status: 400 }
+        );
+      }
+
+      await jobRunner.setBudget(job, budget ?? undefined);
+      if (status === undefined) {
+        return NextResponse.json(await jobStore.getJob(id));
+      }
+    }
+
+    if (status === 'running' && isOverBudget(job)) {
+      return NextResponse.json(
+        { error: `Job has spent its $${job.budget!.toFixed(2)} budget; raise the budget to resume` },
+        { status: 409 }
+      );
+    }
 
-    jobs[jobIndex] = {
-      ...jobs[jobIndex],
-      status,
-      ...(status === 'completed' && { completedAt: new Date().toISOString() })
-    };
+    let applied: boolean;
+    switch (status) {
+      case 'paused':
+        applied = await jobRunner.pause(job);
+        break;
+      case 'running':
+        applied = await jobRunner.resume(job);
+        break;
+      case 'cancelled':
+        applied = await jobRunner.cancel(job);
+        break;
+      default:
+        return NextResponse.json(
+          { error: 'Status must be one of "paused", "running" or "cancelled"' },
+          { status: 400 }
+        );
+    }
 
-    return NextResponse.json(jobs[jobIndex]);
+    if (!applied) {
+      return NextResponse.json(
+        { error: `Cannot change a ${job.status} job to ${status}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(await jobStore.getJob(id));
   } catch (error) {
     console.error('Error updating job:', error);
     return NextResponse.json(
@@ -73,17 +109,18 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params;
-    const jobs = getJobs();
-    const jobIndex = jobs.findIndex(j => j.id === id);
+    const job = await jobStore.getJob(id);
 
-    if (jobIndex === -1) {
+    if (!job) {
       return NextResponse.json(
         { error: 'Job not found' },
         { status: 404 }
       );
     }
 
-    jobs.splice(jobIndex, 1);
+    // Stop any in-flight processing before the record disappears
+    await jobRunner.cancel(job);
+    await jobStore.deleteJob(id);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -93,4 +130,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
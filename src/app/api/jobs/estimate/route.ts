@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BigCommerceClient } from '@/lib/bigcommerce/client';
+import { estimateJobCost, MODEL_PRICING } from '@/lib/ai/pricing';
+import { LLM_PROVIDERS } from '@/lib/ai/providers';
+import { ContentConfig, LLMProviderName } from '@/types/content';
+
+/**
+ * Pre-flight cost estimate for a job over the selected categories.
+ * Counts come from the category product counts, so a product listed in
+ * several selected categories is counted once per category and the
+ * estimate errs high.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const categoryIds = searchParams.get('categories')?.split(',').map(id => parseInt(id)).filter(id => !isNaN(id)) || [];
+    const aiModel = (searchParams.get('aiModel') || 'gpt-4o') as ContentConfig['aiModel'];
+    const provider = (searchParams.get('provider') || undefined) as LLMProviderName | undefined;
+
+    if (!Object.hasOwn(MODEL_PRICING, aiModel)) {
+      return NextResponse.json(
+        { error: `Unknown AI model: ${aiModel}` },
+        { status: 400 }
+      );
+    }
+
+    if (provider && !LLM_PROVIDERS.includes(provider)) {
+      return NextResponse.json(
+        { error: `Unknown LLM provider: ${provider}` },
+        { status: 400 }
+      );
+    }
+
+    const client = new BigCommerceClient();
+    const categories = await client.getCategories();
+    const productCount = categories
+      .filter(category => categoryIds.length === 0 || categoryIds.includes(category.id))
+      .reduce((total, category) => total + category.product_count, 0);
+
+    return NextResponse.json(estimateJobCost(productCount, { aiModel, provider }));
+  } catch (error) {
+    console.error('Error estimating job cost:', error);
+    return NextResponse.json(
+      { error: 'Failed to estimate job cost' },
+      { status: 500 }
+    );
+  }
+}
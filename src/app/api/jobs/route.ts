@@ -1,20 +1,75 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ProcessingJob, JobStatus } from '@/types/content';
-import { v4 as uuidv4 } from 'uuid';
-import { AIContentGenerator } from '@/lib/ai/content-generator';
-import { CatalystClient } from '@/lib/catalyst/client';
-
-// In-memory storage for demo (replace with Supabase in production)
-const jobs: ProcessingJob[] = [];
+import { DeltaSummary, ProcessingJob, JobStatus, Product } from '@/types/content';
+import { jobRunner } from '@/lib/jobs/runner';
+import { jobStore } from '@/lib/jobs/store';
+import { findGenerationRecords, selectDeltaProducts } from '@/lib/jobs/delta';
+import { fishClassifier } from '@/lib/classification/classifier';
+import { getStoreLocale, isLocaleCode, LOCALE_PROFILES } from '@/lib/locale/profiles';
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
 
 export async function GET() {
-  return NextResponse.json(jobs);
+  try {
+    const jobs = await jobStore.getAllJobs();
+    return NextResponse.json(jobs);
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch jobs' },
+      { status: 500 }
+    );
+  }
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { categories, batchSize, concurrent, config } = body;
+    const { categories, batchSize, concurrent, retries, config, budget, forceRegenerate, mode, maxContentAgeDays } = body;
+
+    // The runner sizes its batches and worker pool from these
+    if (!isPositiveInteger(batchSize) || !isPositiveInteger(concurrent)) {
+      return NextResponse.json(
+        { error: 'Batch size and concurrency must be positive whole numbers' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(retries) || retries < 0) {
+      return NextResponse.json(
+        { error: 'Retries must be a whole number of zero or more' },
+        { status: 400 }
+      );
+    }
+
+    if (budget !== undefined && !(typeof budget === 'number' && budget > 0)) {
+      return NextResponse.json(
+        { error: 'Budget must be a positive number of dollars' },
+        { status: 400 }
+      );
+    }
+
+    if (mode !== undefined && mode !== 'full' && mode !== 'delta') {
+      return NextResponse.json(
+        { error: 'Mode must be "full" or "delta"' },
+        { status: 400 }
+      );
+    }
+
+    if (maxContentAgeDays !== undefined && !(typeof maxContentAgeDays === 'number' && maxContentAgeDays > 0)) {
+      return NextResponse.json(
+        { error: 'Maximum content age must be a positive number of days' },
+        { status: 400 }
+      );
+    }
+
+    if (config?.locale !== undefined && !isLocaleCode(config.locale)) {
+      return NextResponse.json(
+        { error: `Locale must be one of ${Object.keys(LOCALE_PROFILES).join(', ')}` },
+        { status: 400 }
+      );
+    }
 
     // Fetch real products from BigCommerce
     console.log('Fetching products for categories:', categories);
@@ -46,16 +101,35 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    console.log(`Found ${products.length} products in the selected categories`);
+
+    // Delta jobs only take products that are new, changed or stale since their last generation
+    let delta: DeltaSummary | undefined;
+    if (mode === 'delta') {
+      const records = await findGenerationRecords(products.map((product: Product) => product.productId));
+      ({ products, summary: delta } = selectDeltaProducts(products, records, maxContentAgeDays));
+      console.log(`Delta: ${delta.new} new, ${delta.changed} changed, ${delta.stale} stale, ${delta.unchanged} unchanged`);
+    }
+
     const totalProducts = products.length;
     console.log(`Found ${totalProducts} products for processing`);
 
-    const newJob: ProcessingJob = {
-      id: uuidv4(),
+    // Stored on the job so the classification used is visible and stable across resumes
+    if (config?.autoClassify) {
+      products = fishClassifier.classifyAll(products);
+    }
+
+    const newJob: ProcessingJob = await jobStore.createJob({
       categories,
       products: products, // Real products from BigCommerce
-      config,
+      config: { ...config, locale: config?.locale || getStoreLocale() }, // Pinned so a STORE_LOCALE change doesn't split the job
       batchSize,
       concurrent,
+      retries,
+      budget,
+      // Stale content is cached as current, so delta jobs always regenerate what they select
+      forceRegenerate: forceRegenerate === true || mode === 'delta',
+      delta,
       status: 'pending' as JobStatus,
       progress: {
         total: totalProducts,
@@ -65,14 +139,10 @@ export async function POST(request: NextRequest) {
       },
       startedAt: new Date().toISOString(),
       errors: []
-    };
+    });
 
-    jobs.push(newJob);
-
-    // Start processing simulation
-    setTimeout(() => {
-      simulateJobProgress(newJob.id);
-    }, 1000);
+    // Hand the job to the shared worker pool
+    await jobRunner.start(newJob);
 
     return NextResponse.json(newJob, { status: 201 });
   } catch (error) {
@@ -83,108 +153,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-// Simulate job progress with real product data
-async function simulateJobProgress(jobId: string) {
-  const job = jobs.find(j => j.id === jobId);
-  if (!job) return;
-
-  job.status = 'running';
-  console.log(`Starting job ${jobId} with ${job.products.length} products`);
-
-  let processedProducts = 0;
-  let currentProductIndex = 0;
-
-  const interval = setInterval(async () => {
-    const job = jobs.find(j => j.id === jobId);
-    if (!job || job.status !== 'running') {
-      clearInterval(interval);
-      return;
-    }
-
-    // Process products one by one or in small batches
-    const batchSize = Math.min(job.batchSize, job.products.length - currentProductIndex);
-    if (batchSize <= 0) {
-      // All products processed
-      job.status = 'completed';
-      job.completedAt = new Date().toISOString();
-      console.log(`Job ${jobId} completed. Processed ${processedProducts} products.`);
-      clearInterval(interval);
-      return;
-    }
-
-    // Simulate processing a batch of products
-    const processingBatch = job.products.slice(currentProductIndex, currentProductIndex + batchSize);
-    let batchSuccessful = 0;
-    let batchFailed = 0;
-
-    // Process each product in the batch
-    for (const product of processingBatch) {
-      try {
-        // Generate AI content
-        const generator = new AIContentGenerator();
-        const aiContent = await generator.generateContent(product, job.config);
-
-        console.log(`✅ Generated AI content for: ${product.name}`);
-
-        // Publish to Catalyst storefront
-        const catalyst = new CatalystClient();
-        const publishSuccess = await catalyst.publishContent(aiContent, product);
-
-        // Store JSON files in memory for the JSON viewer
-        const { populateStorageFromGeneration } = await import('../json-files/route');
-        await populateStorageFromGeneration(product.productId, aiContent, product);
-
-        if (publishSuccess) {
-          batchSuccessful += 1;
-          console.log(`🚀 Published to Catalyst: ${product.name}`);
-        } else {
-          batchFailed += 1;
-          job.errors.push({
-            productId: product.productId,
-            productName: product.name,
-            errorType: 'deployment',
-            message: 'Failed to publish content to Catalyst storefront',
-            timestamp: new Date().toISOString(),
-            retryCount: 0,
-            maxRetries: 3
-          });
-          console.log(`❌ Failed to publish to Catalyst: ${product.name}`);
-        }
-      } catch (error) {
-        batchFailed += 1;
-        job.errors.push({
-          productId: product.productId,
-          productName: product.name,
-          errorType: 'ai-generation',
-          message: error instanceof Error ? error.message : 'Failed to generate content',
-          timestamp: new Date().toISOString(),
-          retryCount: 0,
-          maxRetries: 3
-        });
-        console.log(`❌ Failed to process product: ${product.name} - ${error}`);
-      }
-    }
-
-    // Update progress
-    processedProducts += batchSuccessful;
-    currentProductIndex += batchSize;
-
-    job.progress = {
-      total: job.products.length,
-      completed: processedProducts,
-      failed: job.progress.failed + batchFailed,
-      percentage: Math.round((processedProducts / job.products.length) * 100)
-    };
-
-    console.log(`Job ${jobId} progress: ${processedProducts}/${job.products.length} (${job.progress.percentage}%)`);
-
-    // Complete job when done
-    if (currentProductIndex >= job.products.length) {
-      job.status = 'completed';
-      job.completedAt = new Date().toISOString();
-      console.log(`Job ${jobId} completed. Total: ${processedProducts} successful, ${job.progress.failed} failed.`);
-      clearInterval(interval);
-    }
-  }, 3000); // Update every 3 seconds to simulate real processing time
-}
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { NextRequest } from 'next/server';
+import { jobEvents, SequencedJobEvent, toJobUpdate } from '@/lib/jobs/events';
+import { jobStore } from '@/lib/jobs/store';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+const RECONNECT_DELAY_MS = 5000;
+
+function formatEvent(event: SequencedJobEvent): string {
+  return `id: ${event.id}\ndata: ${event.data}\n\n`;
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const jobIds = searchParams.get('ids')?.split(',').map(id => id.trim()).filter(Boolean) || [];
+
+  // Native EventSource reconnects send the header; manual reconnects use the query
+  const lastEventIdRaw = request.headers.get('last-event-id') || searchParams.get('lastEventId');
+  const lastEventId = lastEventIdRaw ? parseInt(lastEventIdRaw) : NaN;
+
+  const matchesFilter = (event: SequencedJobEvent) =>
+    jobIds.length === 0 || jobIds.includes(event.jobId);
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      let heartbeat: ReturnType<typeof setInterval> | null = null;
+      let unsubscribe = () => {};
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        if (heartbeat) clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      request.signal.addEventListener('abort', () => cleanup());
+
+      // Hold live events until the catch-up below has been written
+      let pending: SequencedJobEvent[] | null = [];
+      unsubscribe = jobEvents.subscribe(event => {
+        if (!matchesFilter(event)) return;
+        if (pending) {
+          pending.push(event);
+        } else {
+          send(formatEvent(event));
+        }
+      });
+
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+      const missed = isNaN(lastEventId) ? null : jobEvents.since(lastEventId);
+      let lastSentId = isNaN(lastEventId) ? 0 : lastEventId;
+
+      if (missed) {
+        for (const event of missed.filter(matchesFilter)) {
+          send(formatEvent(event));
+          lastSentId = event.id;
+        }
+      } else {
+        // Fresh connection or unrecoverable gap: send current job state instead
+        try {
+          const jobs = jobIds.length > 0
+            ? await Promise.all(jobIds.map(id => jobStore.getJob(id)))
+            : await jobStore.getAllJobs();
+
+          for (const job of jobs) {
+            if (job) send(`data: ${JSON.stringify({ type: 'job_update', job: toJobUpdate(job) })}\n\n`);
+          }
+        } catch (error) {
+          console.error('Failed to load job snapshot for stream:', error);
+        }
+      }
+
+      for (const event of pending) {
+        if (event.id > lastSentId) send(formatEvent(event));
+      }
+      pending = null;
+
+      heartbeat = setInterval(() => {
+        send(`data: ${JSON.stringify({ type: 'heartbeat', timestamp: new Date().toISOString() })}\n\n`);
+      }, HEARTBEAT_INTERVAL_MS);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -1,25 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { BigCommerceClient } from '@/lib/bigcommerce/client';
 import { AIContentGenerator } from '@/lib/ai/content-generator';
-import { JSONFileGenerator } from '@/lib/catalyst/file-generator';
+import { JSONFileGenerator, jsonFileName } from '@/lib/catalyst/file-generator';
+import { getStorageKey, getStoredDetails, jsonStorage, JSONFileType, parseStorageKey } from '@/lib/catalyst/json-storage';
+import { assessContent } from '@/lib/ai/quality';
+import { productRecommender } from '@/lib/recommendations/recommender';
+import { isLocaleCode } from '@/lib/locale/profiles';
+import { checkConfigOverrides, resolveRegenerationConfig } from '@/lib/jobs/config-history';
+import { LocaleCode } from '@/types/content';
 
 interface JSONFile {
   productId: number;
   productName: string;
-  type: 'quickref' | 'details';
+  type: JSONFileType;
+  locale?: LocaleCode; // Set on translated variants
   filename: string;
   content: any;
   lastModified: string;
   size: number;
 }
 
-// In-memory storage for demo (replace with Supabase in production)
-const jsonStorage: Map<string, any> = new Map();
-
-function getStorageKey(productId: number, type: 'quickref' | 'details'): string {
-  return `${productId}-${type}`;
-}
-
 export async function GET() {
   try {
     const files: JSONFile[] = [];
@@ -31,16 +31,16 @@ export async function GET() {
 
     // Convert storage to file list
     for (const [key, content] of jsonStorage.entries()) {
-      const [productIdStr, type] = key.split('-');
-      const productId = parseInt(productIdStr);
+      const { productId, type, locale } = parseStorageKey(key);
       const productName = productMap.get(productId) || `Product ${productId}`;
 
       const jsonString = JSON.stringify(content, null, 2);
       const file: JSONFile = {
         productId,
         productName,
-        type: type as 'quickref' | 'details',
-        filename: `${productId}-${type}.json`,
+        type,
+        locale,
+        filename: jsonFileName(productId, type, locale),
         content,
         lastModified: content.generatedAt || content.metadata?.generatedAt || new Date().toISOString(),
         size: Buffer.byteLength(jsonString, 'utf8')
@@ -49,10 +49,11 @@ export async function GET() {
       files.push(file);
     }
 
-    // Sort by product ID and type
+    // Sort by product ID and type, with translations after the generated file
     files.sort((a, b) => {
       if (a.productId !== b.productId) return a.productId - b.productId;
-      return a.type.localeCompare(b.type);
+      if (a.type !== b.type) return a.type.localeCompare(b.type);
+      return (a.locale || '').localeCompare(b.locale || '');
     });
 
     return NextResponse.json(files);
@@ -67,7 +68,7 @@ export async function GET() {
 
 export async function PUT(request: NextRequest) {
   try {
-    const { productId, type, content } = await request.json();
+    const { productId, type, content, locale } = await request.json();
 
     if (!productId || !type || !content) {
       return NextResponse.json(
@@ -83,6 +84,13 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    if (locale !== undefined && !isLocaleCode(locale)) {
+      return NextResponse.json(
+        { error: 'Locale is not supported' },
+        { status: 400 }
+      );
+    }
+
     // Validate JSON structure based on type
     if (type === 'quickref') {
       if (!content.productId || !content.type || !content.quickReference) {
@@ -109,7 +117,7 @@ export async function PUT(request: NextRequest) {
     }
 
     // Store the updated content
-    const key = getStorageKey(productId, type);
+    const key = getStorageKey(productId, type, locale);
     jsonStorage.set(key, content);
 
     return NextResponse.json({ success: true });
@@ -124,7 +132,7 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
-    const { productId, type } = await request.json();
+    const { productId, type, locale } = await request.json();
 
     if (!productId || !type) {
       return NextResponse.json(
@@ -133,7 +141,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    const key = getStorageKey(productId, type);
+    const key = getStorageKey(productId, type, locale);
     const deleted = jsonStorage.delete(key);
 
     if (!deleted) {
@@ -155,7 +163,7 @@ export async function DELETE(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const { productId, regenerateType } = await request.json();
+    const { productId, regenerateType, config: configOverrides } = await request.json();
 
     if (!productId) {
       return NextResponse.json(
@@ -164,6 +172,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const invalidConfig = checkConfigOverrides(configOverrides);
+    if (invalidConfig) {
+      return NextResponse.json(
+        { error: invalidConfig },
+        { status: 400 }
+      );
+    }
+
     // Get product from BigCommerce
     const bigcommerce = new BigCommerceClient();
     const allProducts = await bigcommerce.getAllProducts();
@@ -176,15 +192,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate AI content
+    // Regenerate with the config the product was last generated with, unless overridden
+    const { config, source: configSource } = await resolveRegenerationConfig(
+      product,
+      getStoredDetails(product.productId),
+      configOverrides
+    );
     const generator = new AIContentGenerator();
-    const aiContent = await generator.generateContent(product, {
-      family: 'community',
-      behavior: 'community-friendly',
-      templateType: 'community-standard',
-      aiModel: 'gpt-4',
-      validation: 'moderate'
-    });
+    const aiContent = assessContent(await generator.generateContent(product, config), product, config);
+    aiContent.relatedProducts = await productRecommender.recommend(aiContent, product);
 
     // Generate JSON files
     const fileGenerator = new JSONFileGenerator();
@@ -195,30 +211,7 @@ export async function POST(request: NextRequest) {
       try {
         fileGenerator.generateQuickRefJSON(aiContent, product);
 
-        // Create quickref data for storage
-        const quickrefData = {
-          productId: aiContent.productId,
-          type: "quickref",
-          scientificName: aiContent.basicInfo.scientificName,
-          commonName: aiContent.basicInfo.commonNames[0] || product.name,
-          quickReference: [
-            `Tank Size: ${aiContent.careRequirements.minTankSize}`,
-            `Temperature: ${aiContent.careRequirements.temperatureRange}`,
-            `pH: ${aiContent.careRequirements.phRange}`,
-            `Care Level: ${aiContent.careRequirements.careLevel}`,
-            `Temperament: ${aiContent.careRequirements.temperament}`,
-            `Max Size: ${aiContent.careRequirements.maxSize}`,
-            `Diet: ${aiContent.careRequirements.diet}`,
-            `Lifespan: ${aiContent.careRequirements.lifespan}`,
-            `Origin: ${aiContent.basicInfo.origin}`,
-            `Family: ${aiContent.basicInfo.family}`
-          ],
-          generatedAt: aiContent.metadata.generatedAt,
-          metadata: {
-            fishFamily: aiContent.metadata.fishFamily,
-            template: aiContent.metadata.template
-          }
-        };
+        const quickrefData = fileGenerator.buildQuickRefData(aiContent, product);
 
         jsonStorage.set(getStorageKey(productId, 'quickref'), quickrefData);
         results.push({ type: 'quickref', success: true });
@@ -241,6 +234,8 @@ export async function POST(request: NextRequest) {
       success: true,
       productId,
       productName: product.name,
+      config,
+      configSource,
       results
     });
   } catch (error) {
@@ -251,42 +246,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-// Utility function to populate storage with existing generated content
-export async function populateStorageFromGeneration(productId: number, aiContent: any, product: any) {
-  try {
-    const fileGenerator = new JSONFileGenerator();
-
-    // Generate and store quickref JSON
-    const quickrefData = {
-      productId: aiContent.productId,
-      type: "quickref",
-      scientificName: aiContent.basicInfo.scientificName,
-      commonName: aiContent.basicInfo.commonNames[0] || product.name,
-      quickReference: [
-        `Tank Size: ${aiContent.careRequirements.minTankSize}`,
-        `Temperature: ${aiContent.careRequirements.temperatureRange}`,
-        `pH: ${aiContent.careRequirements.phRange}`,
-        `Care Level: ${aiContent.careRequirements.careLevel}`,
-        `Temperament: ${aiContent.careRequirements.temperament}`,
-        `Max Size: ${aiContent.careRequirements.maxSize}`,
-        `Diet: ${aiContent.careRequirements.diet}`,
-        `Lifespan: ${aiContent.careRequirements.lifespan}`,
-        `Origin: ${aiContent.basicInfo.origin}`,
-        `Family: ${aiContent.basicInfo.family}`
-      ],
-      generatedAt: aiContent.metadata.generatedAt,
-      metadata: {
-        fishFamily: aiContent.metadata.fishFamily,
-        template: aiContent.metadata.template
-      }
-    };
-
-    jsonStorage.set(getStorageKey(productId, 'quickref'), quickrefData);
-    jsonStorage.set(getStorageKey(productId, 'details'), aiContent);
-
-    console.log(`📁 Stored JSON files for product ${productId} in memory`);
-  } catch (error) {
-    console.error('Error populating storage:', error);
-  }
-}
\ No newline at end of file
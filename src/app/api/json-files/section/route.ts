@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BigCommerceClient } from '@/lib/bigcommerce/client';
+import { AIContentGenerator } from '@/lib/ai/content-generator';
+import { assessContent } from '@/lib/ai/quality';
+import { GENERATED_SECTIONS } from '@/lib/ai/schema';
+import { productRecommender } from '@/lib/recommendations/recommender';
+import { getStoredDetails, populateStorageFromGeneration } from '@/lib/catalyst/json-storage';
+import { checkConfigOverrides, resolveRegenerationConfig } from '@/lib/jobs/config-history';
+import { ContentSection } from '@/types/content';
+
+const MAX_INSTRUCTION_LENGTH = 500;
+
+// Sections the recommendations are matched from
+const RECOMMENDATION_SECTIONS: ContentSection[] = ['basicInfo', 'compatibility'];
+
+/**
+ * Regenerate one section of a product's stored content, optionally with an
+ * editor's instruction, and store the merged result. The rest of the
+ * content is kept as it is.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { productId, section, instruction, config: configOverrides } = await request.json();
+
+    if (!productId) {
+      return NextResponse.json(
+        { error: 'Product ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!GENERATED_SECTIONS.includes(section)) {
+      return NextResponse.json(
+        { error: `Section must be one of ${GENERATED_SECTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (instruction !== undefined && (typeof instruction !== 'string' || instruction.length > MAX_INSTRUCTION_LENGTH)) {
+      return NextResponse.json(
+        { error: `Instruction must be text of at most ${MAX_INSTRUCTION_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const invalidConfig = checkConfigOverrides(configOverrides);
+    if (invalidConfig) {
+      return NextResponse.json(
+        { error: invalidConfig },
+        { status: 400 }
+      );
+    }
+
+    const content = getStoredDetails(parseInt(productId));
+    if (!content) {
+      return NextResponse.json(
+        { error: 'Generate content for this product before regenerating a section' },
+        { status: 404 }
+      );
+    }
+
+    const product = await new BigCommerceClient().getProduct(content.productId);
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    // Stay with the config the content was generated with, unless overridden
+    const { config } = await resolveRegenerationConfig(product, content, configOverrides);
+
+    const generator = new AIContentGenerator();
+    const updated = assessContent(
+      await generator.regenerateSection(content, product, config, section, instruction, request.signal),
+      product,
+      config
+    );
+
+    // Best effort, as in the pipeline: stale recommendations beat a failed edit
+    if (RECOMMENDATION_SECTIONS.includes(section)) {
+      try {
+        updated.relatedProducts = await productRecommender.recommend(updated, product);
+      } catch (error) {
+        console.error(`Failed to refresh recommendations for ${product.name}:`, error);
+      }
+    }
+
+    await populateStorageFromGeneration(content.productId, updated, product);
+
+    return NextResponse.json({
+      success: true,
+      productId: content.productId,
+      productName: product.name,
+      section,
+      config,
+      content: updated
+    });
+  } catch (error) {
+    console.error('Error regenerating section:', error);
+    return NextResponse.json(
+      { error: 'Failed to regenerate section' },
+      { status: 500 }
+    );
+  }
+}
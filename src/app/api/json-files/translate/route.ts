@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BigCommerceClient } from '@/lib/bigcommerce/client';
+import { CatalystClient } from '@/lib/catalyst/client';
+import { getStoredDetails, populateStorageFromGeneration } from '@/lib/catalyst/json-storage';
+import { ContentTranslator } from '@/lib/ai/translator';
+import { isLocaleCode, LOCALE_PROFILES } from '@/lib/locale/profiles';
+import { checkConfigOverrides } from '@/lib/jobs/config-history';
+
+/**
+ * Translate a product's generated content into other locales and store
+ * the [productId]-details.<locale>.json and quickref variants. Set
+ * `publish` to also send the translations to Catalyst; each result's
+ * `published` says whether that worked.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { productId, locales, provider, aiModel, publish } = await request.json();
+
+    if (!productId) {
+      return NextResponse.json(
+        { error: 'Product ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(locales) || locales.length === 0 || !locales.every(isLocaleCode)) {
+      return NextResponse.json(
+        { error: `Locales must be a list drawn from ${Object.keys(LOCALE_PROFILES).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const invalidConfig = checkConfigOverrides({ provider, aiModel });
+    if (invalidConfig) {
+      return NextResponse.json(
+        { error: invalidConfig },
+        { status: 400 }
+      );
+    }
+
+    const content = getStoredDetails(parseInt(productId));
+    if (!content) {
+      return NextResponse.json(
+        { error: 'Generate content for this product before translating it' },
+        { status: 404 }
+      );
+    }
+
+    const product = await new BigCommerceClient().getProduct(content.productId);
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    const translator = new ContentTranslator();
+    const catalyst = publish ? new CatalystClient() : null;
+    const results: { locale: string; success: boolean; published?: boolean; untranslatedFields?: string[]; error?: string }[] = [];
+
+    for (const locale of locales) {
+      try {
+        const translated = await translator.translate(content, locale, { provider, aiModel }, request.signal);
+        await populateStorageFromGeneration(content.productId, translated, product);
+        const untranslatedFields = translated.metadata.translation!.untranslatedFields;
+
+        // The translation stays stored when publishing fails, so only the publish needs retrying
+        const published = catalyst ? await catalyst.publishContent(translated, product) : undefined;
+        results.push(published === false
+          ? { locale, success: true, published, untranslatedFields, error: 'Failed to publish to Catalyst' }
+          : { locale, success: true, published, untranslatedFields });
+      } catch (error) {
+        console.error(`Failed to translate product ${content.productId} into ${locale}:`, error);
+        results.push({ locale, success: false, error: error instanceof Error ? error.message : 'Translation failed' });
+      }
+    }
+
+    return NextResponse.json({
+      success: results.some(result => result.success),
+      published: catalyst ? results.every(result => result.published) : undefined,
+      productId: content.productId,
+      productName: product.name,
+      results
+    });
+  } catch (error) {
+    console.error('Error translating JSON files:', error);
+    return NextResponse.json(
+      { error: 'Failed to translate JSON files' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BigCommerceClient } from '@/lib/bigcommerce/client';
+import { AIContentGenerator, CompletionReason } from '@/lib/ai/content-generator';
+import { assessContent } from '@/lib/ai/quality';
+import { checkConfigOverrides, resolveRegenerationConfig } from '@/lib/jobs/config-history';
+import { AISearchContent, ContentConfig, Product } from '@/types/content';
+
+export const dynamic = 'force-dynamic';
+
+type PreviewEvent =
+  | { type: 'completion_start'; reason: CompletionReason }
+  | { type: 'delta'; text: string }
+  | { type: 'complete'; content: AISearchContent }
+  | { type: 'error'; message: string };
+
+/**
+ * Generate content for one product and stream the model output as it
+ * arrives. Nothing is saved or published; the final event carries the
+ * assessed content, including its token usage.
+ */
+export async function POST(request: NextRequest) {
+  const { productId, config: configOverrides } = await request.json().catch(() => ({}));
+
+  if (!productId) {
+    return NextResponse.json(
+      { error: 'Product ID is required' },
+      { status: 400 }
+    );
+  }
+
+  const invalidConfig = checkConfigOverrides(configOverrides);
+  if (invalidConfig) {
+    return NextResponse.json(
+      { error: invalidConfig },
+      { status: 400 }
+    );
+  }
+
+  let previewProduct: Product;
+  let config: ContentConfig;
+  try {
+    const product = await new BigCommerceClient().getProduct(parseInt(productId));
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    // Preview with the config the product was last generated with, unless overridden
+    previewProduct = product;
+    ({ config } = await resolveRegenerationConfig(product, undefined, configOverrides));
+  } catch (error) {
+    console.error('Error loading product for preview:', error);
+    return NextResponse.json(
+      { error: 'Failed to load product' },
+      { status: 500 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: PreviewEvent) => {
+        if (request.signal.aborted) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      try {
+        const generator = new AIContentGenerator();
+        const generated = await generator.generateContent(previewProduct, config, request.signal, {
+          onCompletionStart: reason => send({ type: 'completion_start', reason }),
+          onDelta: text => send({ type: 'delta', text })
+        });
+
+        send({ type: 'complete', content: assessContent(generated, previewProduct, config) });
+      } catch (error) {
+        if (!request.signal.aborted) {
+          console.error(`Preview generation failed for ${previewProduct.name}:`, error);
+          send({ type: 'error', message: error instanceof Error ? error.message : 'Failed to generate content' });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  parseReferenceCSV,
+  ReferenceImportResult,
+  speciesReferenceStore,
+  toSpeciesReference
+} from '@/lib/species/reference-store';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q')?.toLowerCase();
+
+    const references = await speciesReferenceStore.getAll();
+    const matching = query
+      ? references.filter(reference =>
+          [reference.scientificName, ...reference.synonyms].some(name => name.toLowerCase().includes(query)))
+      : references;
+
+    return NextResponse.json(matching);
+  } catch (error) {
+    console.error('Error fetching species references:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch species references' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Import reference data as CSV (Content-Type text/csv) or as JSON, either
+ * an array of references or { references: [...] }. Valid rows are imported
+ * even when others are rejected.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let result: ReferenceImportResult;
+
+    if (request.headers.get('content-type')?.includes('text/csv')) {
+      result = parseReferenceCSV(await request.text());
+    } else {
+      const body = await request.json();
+      const records: unknown[] = Array.isArray(body) ? body : body?.references;
+
+      if (!Array.isArray(records)) {
+        return NextResponse.json(
+          { error: 'Body must be an array of references or { references: [...] }' },
+          { status: 400 }
+        );
+      }
+
+      result = { references: [], errors: [] };
+      records.forEach((record, index) => {
+        const reference = toSpeciesReference(record);
+        if (typeof reference === 'string') {
+          result.errors.push({ row: index + 1, message: reference });
+        } else {
+          result.references.push(reference);
+        }
+      });
+    }
+
+    const imported = result.references.length > 0
+      ? await speciesReferenceStore.import(result.references)
+      : 0;
+
+    return NextResponse.json(
+      { imported, errors: result.errors },
+      { status: imported > 0 || result.errors.length === 0 ? 200 : 400 }
+    );
+  } catch (error) {
+    console.error('Error importing species references:', error);
+    return NextResponse.json(
+      { error: 'Failed to import species references' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isProductWebhook, verifyWebhook, WEBHOOK_SECRET_HEADER, WebhookPayload } from '@/lib/bigcommerce/webhooks';
+import { productWebhookQueue } from '@/lib/jobs/webhook-queue';
+
+/**
+ * Receives store/product/created and store/product/updated webhooks and
+ * queues the product for content generation. Register both scopes with
+ * headers: { "X-Webhook-Secret": BIGCOMMERCE_WEBHOOK_SECRET }.
+ *
+ * BigCommerce retries deliveries that don't get a quick 2xx and disables
+ * webhooks that keep failing, so the work happens after the response and
+ * scopes we don't handle are acknowledged too.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!process.env.BIGCOMMERCE_WEBHOOK_SECRET) {
+      return NextResponse.json(
+        { error: 'Webhooks are not configured' },
+        { status: 503 }
+      );
+    }
+
+    let payload: WebhookPayload;
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Webhook body must be JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      return NextResponse.json(
+        { error: 'Webhook body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    if (!verifyWebhook(request.headers.get(WEBHOOK_SECRET_HEADER), payload)) {
+      return NextResponse.json(
+        { error: 'Webhook could not be verified' },
+        { status: 401 }
+      );
+    }
+
+    if (!isProductWebhook(payload)) {
+      return NextResponse.json({ received: true, queued: false });
+    }
+
+    productWebhookQueue.enqueue(payload.data.id, payload.scope);
+
+    return NextResponse.json({
+      received: true,
+      queued: true,
+      productId: payload.data.id,
+      pending: productWebhookQueue.pendingCount()
+    });
+  } catch (error) {
+    console.error('Error receiving BigCommerce webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to receive webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -22,15 +22,17 @@ export default function Dashboard({ jobs: initialJobs, onJobUpdate }: DashboardP
   const {
     jobs,
     isLoading,
-    updateJob,
+    mergeJobUpdate,
     createJob,
     toggleJobStatus,
-    cancelJob
+    cancelJob,
+    updateJobBudget,
+    retryFailedProducts
   } = useJobProgress(initialJobs);
 
   const { isConnected } = useRealtimeUpdates({
     jobs,
-    onJobUpdate: updateJob,
+    onJobUpdate: mergeJobUpdate,
     enabled: true
   });
 
@@ -39,19 +41,22 @@ export default function Dashboard({ jobs: initialJobs, onJobUpdate }: DashboardP
     onJobUpdate(jobs);
   }, [jobs, onJobUpdate]);
 
-  const activeJobs = jobs.filter(job => job.status === 'running' || job.status === 'pending');
+  const activeJobs = jobs.filter(job =>
+    job.status === 'running' || job.status === 'pending' || job.status === 'paused'
+  );
   const completedJobs = jobs.filter(job => job.status === 'completed');
   const failedJobs = jobs.filter(job => job.status === 'failed');
+  const cancelledJobs = jobs.filter(job => job.status === 'cancelled');
+
+  const totalProducts = jobs.reduce((acc, job) => acc + job.progress.total, 0);
+  const completedProducts = jobs.reduce((acc, job) => acc + job.progress.completed, 0);
+  const failedProducts = jobs.reduce((acc, job) => acc + job.progress.failed, 0);
 
   // Calculate actual overall progress based on all products
   const totalProgress = totalProducts > 0
     ? Math.round((completedProducts / totalProducts) * 100)
     : 0;
 
-  const totalProducts = jobs.reduce((acc, job) => acc + job.progress.total, 0);
-  const completedProducts = jobs.reduce((acc, job) => acc + job.progress.completed, 0);
-  const failedProducts = jobs.reduce((acc, job) => acc + job.progress.failed, 0);
-
   const handleStartNewJob = () => {
     setShowNewJobModal(true);
   };
@@ -194,6 +199,7 @@ export default function Dashboard({ jobs: initialJobs, onJobUpdate }: DashboardP
                 job={job}
                 onPauseResume={() => toggleJobStatus(job.id)}
                 onCancel={() => cancelJob(job.id)}
+                onBudgetChange={budget => updateJobBudget(job.id, budget)}
               />
             ))}
           </div>
@@ -214,6 +220,7 @@ export default function Dashboard({ jobs: initialJobs, onJobUpdate }: DashboardP
                 <JobCard
                   key={job.id}
                   job={job}
+                  onRetryFailed={(config) => retryFailedProducts(job.id, config)}
                   compact
                 />
               ))}
@@ -233,6 +240,27 @@ export default function Dashboard({ jobs: initialJobs, onJobUpdate }: DashboardP
                 <JobCard
                   key={job.id}
                   job={job}
+                  onRetryFailed={(config) => retryFailedProducts(job.id, config)}
+                  compact
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Cancelled Jobs */}
+        {cancelledJobs.length > 0 && (
+          <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-200">
+            <h3 className="text-xl font-bold text-gray-900 mb-4 flex items-center">
+              <div className="w-3 h-3 bg-gray-400 rounded-full mr-2"></div>
+              Cancelled Jobs ({cancelledJobs.length})
+            </h3>
+            <div className="space-y-3">
+              {cancelledJobs.slice(0, 5).map(job => (
+                <JobCard
+                  key={job.id}
+                  job={job}
+                  onRetryFailed={(config) => retryFailedProducts(job.id, config)}
                   compact
                 />
               ))}
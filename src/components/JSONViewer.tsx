@@ -1,18 +1,42 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Search, Edit3, Save, X, Download, Upload, Trash2, Eye, FileText } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { Search, Edit3, Save, X, Download, Upload, Trash2, Eye, FileText, Sparkles, Languages, RefreshCw } from 'lucide-react';
+import { AISearchContent, ContentSection, LocaleCode } from '@/types/content';
+import { LOCALE_PROFILES } from '@/lib/locale/profiles';
+
+const SECTION_LABELS: Record<ContentSection, string> = {
+  basicInfo: 'Basic info',
+  careRequirements: 'Care requirements',
+  compatibility: 'Compatibility',
+  aiContext: 'FAQ and selling points',
+  breeding: 'Breeding'
+};
 
 interface JSONFile {
   productId: number;
   productName: string;
   type: 'species' | 'ai-search';
+  locale?: LocaleCode; // Set on translated variants
   filename: string;
   content: any;
   lastModified: string;
   size: number;
 }
 
+// Translated variants share a product and type with the generated file
+const isSameFile = (a: JSONFile, b: JSONFile | null) =>
+  !!b && a.productId === b.productId && a.type === b.type && a.locale === b.locale;
+
+// Streamed output of a one-off generation, shown in place of the file content
+interface GenerationPreview {
+  productId: number;
+  status: 'streaming' | 'complete' | 'error';
+  text: string;
+  content?: AISearchContent;
+  message?: string;
+}
+
 interface JSONViewerProps {
   onClose?: () => void;
 }
@@ -27,9 +51,14 @@ export default function JSONViewer({ onClose }: JSONViewerProps) {
   const [filterType, setFilterType] = useState<'all' | 'species' | 'ai-search'>('all');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<GenerationPreview | null>(null);
+  const [translatingProductId, setTranslatingProductId] = useState<number | null>(null);
+  const [regenerating, setRegenerating] = useState<{ productId: number; section: ContentSection } | null>(null);
+  const previewController = useRef<AbortController | null>(null);
 
   useEffect(() => {
     fetchJSONFiles();
+    return () => previewController.current?.abort();
   }, []);
 
   useEffect(() => {
@@ -41,8 +70,10 @@ export default function JSONViewer({ onClose }: JSONViewerProps) {
       setIsLoading(true);
       const response = await fetch('/api/json-files');
       if (!response.ok) throw new Error('Failed to fetch JSON files');
-      const files = await response.json();
+      const files: JSONFile[] = await response.json();
       setJsonFiles(files);
+      // Keep the selection, showing its refreshed content
+      setSelectedFile(current => current && (files.find(file => isSameFile(file, current)) || null));
       setError(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load JSON files');
@@ -86,6 +117,7 @@ export default function JSONViewer({ onClose }: JSONViewerProps) {
         body: JSON.stringify({
           productId: editingFile.productId,
           type: editingFile.type,
+          locale: editingFile.locale,
           content: parsedContent
         })
       });
@@ -94,7 +126,7 @@ export default function JSONViewer({ onClose }: JSONViewerProps) {
 
       // Update local state
       const updatedFiles = jsonFiles.map(file =>
-        file.productId === editingFile.productId && file.type === editingFile.type
+        isSameFile(file, editingFile)
           ? { ...file, content: parsedContent, lastModified: new Date().toISOString() }
           : file
       );
@@ -121,15 +153,14 @@ export default function JSONViewer({ onClose }: JSONViewerProps) {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           productId: file.productId,
-          type: file.type
+          type: file.type,
+          locale: file.locale
         })
       });
 
       if (!response.ok) throw new Error('Failed to delete file');
 
-      setJsonFiles(jsonFiles.filter(f =>
-        !(f.productId === file.productId && f.type === file.type)
-      ));
+      setJsonFiles(jsonFiles.filter(f => !isSameFile(f, file)));
       setSelectedFile(null);
       setError(null);
     } catch (err) {
@@ -137,6 +168,123 @@ export default function JSONViewer({ onClose }: JSONViewerProps) {
     }
   };
 
+  const handlePreview = async (file: JSONFile) => {
+    previewController.current?.abort();
+    const controller = new AbortController();
+    previewController.current = controller;
+    setPreview({ productId: file.productId, status: 'streaming', text: '' });
+
+    try {
+      const response = await fetch('/api/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productId: file.productId }),
+        signal: controller.signal
+      });
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to start preview');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const event of events) {
+          if (!event.startsWith('data: ')) continue;
+          const data = JSON.parse(event.slice(6));
+
+          setPreview(current => {
+            if (!current) return current;
+            switch (data.type) {
+              case 'completion_start':
+                // Truncation and repair retries stream the whole response again
+                return { ...current, text: '' };
+              case 'delta':
+                return { ...current, text: current.text + data.text };
+              case 'complete':
+                return { ...current, status: 'complete', content: data.content };
+              case 'error':
+                return { ...current, status: 'error', message: data.message };
+              default:
+                return current;
+            }
+          });
+        }
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setPreview(current => current && {
+        ...current,
+        status: 'error',
+        message: err instanceof Error ? err.message : 'Preview failed'
+      });
+    }
+  };
+
+  const handleTranslate = async (file: JSONFile, locale: LocaleCode) => {
+    setTranslatingProductId(file.productId);
+    try {
+      const response = await fetch('/api/json-files/translate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productId: file.productId, locales: [locale] })
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to translate file');
+
+      const failed = data.results.filter((result: { success: boolean }) => !result.success);
+      setError(failed.length > 0 ? `Translation failed: ${failed.map((result: { error: string }) => result.error).join('; ')}` : null);
+      await fetchJSONFiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to translate file');
+    } finally {
+      setTranslatingProductId(null);
+    }
+  };
+
+  const handleRegenerateSection = async (file: JSONFile, section: ContentSection) => {
+    const instruction = prompt(
+      `Regenerate ${SECTION_LABELS[section].toLowerCase()} for ${file.productName}.\nInstruction for the writer (optional), e.g. "make the FAQ about breeding":`
+    );
+    if (instruction === null) return;
+
+    setRegenerating({ productId: file.productId, section });
+    try {
+      const response = await fetch('/api/json-files/section', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productId: file.productId, section, ...(instruction.trim() && { instruction }) })
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to regenerate section');
+
+      setError(null);
+      await fetchJSONFiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to regenerate section');
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const closePreview = () => {
+    previewController.current?.abort();
+    previewController.current = null;
+    setPreview(null);
+  };
+
   const handleDownload = (file: JSONFile) => {
     const blob = new Blob([JSON.stringify(file.content, null, 2)], {
       type: 'application/json'
@@ -162,21 +310,22 @@ export default function JSONViewer({ onClose }: JSONViewerProps) {
         // Extract productId and type from filename or content
         const productId = content.productId || parseInt(file.name.split('-')[0]);
         const type = file.name.includes('-species.json') ? 'species' : 'ai-search';
+        // Translated variants are named e.g. 123-details.fr-FR.json
+        const locale = file.name.match(/\.([a-z]{2}-[A-Z]{2})\.json$/)?.[1];
 
         // Create new file entry
         const newFile: JSONFile = {
           productId,
           productName: content.commonName || content.basicInfo?.commonNames?.[0] || `Product ${productId}`,
           type: type as 'species' | 'ai-search',
+          ...(locale && locale in LOCALE_PROFILES && { locale: locale as LocaleCode }),
           filename: file.name,
           content,
           lastModified: new Date().toISOString(),
           size: file.size
         };
 
-        setJsonFiles([...jsonFiles.filter(f =>
-          !(f.productId === productId && f.type === type)
-        ), newFile]);
+        setJsonFiles([...jsonFiles.filter(f => !isSameFile(f, newFile)), newFile]);
         setError(null);
       } catch (err) {
         setError('Invalid JSON file');
@@ -285,9 +434,9 @@ export default function JSONViewer({ onClose }: JSONViewerProps) {
               <div className="p-4 space-y-2">
                 {filteredFiles.map((file) => (
                   <div
-                    key={`${file.productId}-${file.type}`}
+                    key={`${file.productId}-${file.type}-${file.locale || 'source'}`}
                     className={`p-3 rounded-lg border cursor-pointer transition-all ${
-                      selectedFile?.productId === file.productId && selectedFile?.type === file.type
+                      isSameFile(file, selectedFile)
                         ? 'border-blue-500 bg-blue-50'
                         : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
                     }`}
@@ -309,6 +458,11 @@ export default function JSONViewer({ onClose }: JSONViewerProps) {
                           }`}>
                             {file.type}
                           </span>
+                          {file.locale && (
+                            <span className="text-xs px-2 py-1 rounded bg-blue-100 text-blue-700">
+                              {file.locale}
+                            </span>
+                          )}
                           <span className="text-xs text-gray-400">
                             {(file.size / 1024).toFixed(1)}KB
                           </span>
@@ -335,6 +489,54 @@ export default function JSONViewer({ onClose }: JSONViewerProps) {
                       </p>
                     </div>
                     <div className="flex items-center space-x-2">
+                      {!selectedFile.locale && (
+                        <div className="flex items-center space-x-1 text-gray-600" title="Regenerate one section">
+                          <RefreshCw className={`h-4 w-4 ${regenerating?.productId === selectedFile.productId ? 'animate-spin' : ''}`} />
+                          <select
+                            value=""
+                            disabled={regenerating?.productId === selectedFile.productId}
+                            onChange={(e) => handleRegenerateSection(selectedFile, e.target.value as ContentSection)}
+                            className="px-2 py-1 text-sm border border-gray-300 rounded-lg bg-white text-gray-900 disabled:opacity-50"
+                          >
+                            <option value="">
+                              {regenerating?.productId === selectedFile.productId
+                                ? `Regenerating ${SECTION_LABELS[regenerating.section].toLowerCase()}...`
+                                : 'Regenerate section...'}
+                            </option>
+                            {Object.entries(SECTION_LABELS).map(([section, label]) => (
+                              <option key={section} value={section}>{label}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                      {!selectedFile.locale && (
+                        <div className="flex items-center space-x-1 text-gray-600" title="Translate">
+                          <Languages className="h-4 w-4" />
+                          <select
+                            value=""
+                            disabled={translatingProductId === selectedFile.productId}
+                            onChange={(e) => handleTranslate(selectedFile, e.target.value as LocaleCode)}
+                            className="px-2 py-1 text-sm border border-gray-300 rounded-lg bg-white text-gray-900 disabled:opacity-50"
+                          >
+                            <option value="">
+                              {translatingProductId === selectedFile.productId ? 'Translating...' : 'Translate to...'}
+                            </option>
+                            {Object.values(LOCALE_PROFILES)
+                              .filter(profile => profile.code !== selectedFile.content?.metadata?.locale)
+                              .map(profile => (
+                                <option key={profile.code} value={profile.code}>{profile.label}</option>
+                              ))}
+                          </select>
+                        </div>
+                      )}
+                      <button
+                        onClick={() => handlePreview(selectedFile)}
+                        disabled={preview?.status === 'streaming'}
+                        className="p-2 text-purple-600 hover:bg-purple-100 rounded-lg transition-colors disabled:opacity-50"
+                        title="Preview regeneration"
+                      >
+                        <Sparkles className="h-4 w-4" />
+                      </button>
                       <button
                         onClick={() => handleDownload(selectedFile)}
                         className="p-2 text-gray-600 hover:bg-gray-200 rounded-lg transition-colors"
@@ -362,7 +564,36 @@ export default function JSONViewer({ onClose }: JSONViewerProps) {
 
                 {/* Content */}
                 <div className="flex-1 overflow-hidden">
-                  {editingFile?.productId === selectedFile.productId && editingFile?.type === selectedFile.type ? (
+                  {preview?.productId === selectedFile.productId ? (
+                    <div className="h-full flex flex-col">
+                      <div className="p-4 border-b bg-purple-50">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium text-purple-800">
+                            {preview.status === 'streaming' && 'Generating preview...'}
+                            {preview.status === 'complete' && preview.content && (
+                              <>
+                                Preview: quality score {preview.content.metadata.qualityScore}, {preview.content.metadata.confidence} confidence
+                                {preview.content.metadata.usage && `, ${preview.content.metadata.usage.totalTokens.toLocaleString()} tokens`}
+                                {' '}(not saved)
+                              </>
+                            )}
+                            {preview.status === 'error' && `Preview failed: ${preview.message}`}
+                          </span>
+                          <button
+                            onClick={closePreview}
+                            className="bg-gray-600 text-white px-3 py-1 rounded text-sm hover:bg-gray-700"
+                          >
+                            {preview.status === 'streaming' ? 'Stop' : 'Close'}
+                          </button>
+                        </div>
+                      </div>
+                      <div className="flex-1 overflow-auto">
+                        <pre className="p-4 text-sm font-mono whitespace-pre-wrap">
+                          {preview.content ? JSON.stringify(preview.content, null, 2) : preview.text}
+                        </pre>
+                      </div>
+                    </div>
+                  ) : isSameFile(selectedFile, editingFile) ? (
                     <div className="h-full flex flex-col">
                       <div className="p-4 border-b bg-yellow-50">
                         <div className="flex items-center justify-between">
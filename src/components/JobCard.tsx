@@ -1,19 +1,24 @@
 'use client';
 
 import { useState } from 'react';
-import { ProcessingJob, JobStatus } from '@/types/content';
+import { ContentConfig, ProcessingJob, JobStatus } from '@/types/content';
 import ProgressBar from './ProgressBar';
-import { formatDuration, formatTimestamp, calculateETA } from '@/lib/utils';
+import { formatCost, formatDuration, formatTimestamp, calculateETA } from '@/lib/utils';
 
 interface JobCardProps {
   job: ProcessingJob;
-  onPauseResume?: () => void;
-  onCancel?: () => void;
+  onPauseResume?: () => void | Promise<void>;
+  onCancel?: () => void | Promise<void>;
+  onRetryFailed?: (config?: Partial<ContentConfig>) => void | Promise<void>;
+  onBudgetChange?: (budget: number) => void | Promise<void>;
   compact?: boolean;
 }
 
-export default function JobCard({ job, onPauseResume, onCancel, compact = false }: JobCardProps) {
+export default function JobCard({ job, onPauseResume, onCancel, onRetryFailed, onBudgetChange, compact = false }: JobCardProps) {
   const [isExpanded, setIsExpanded] = useState(!compact);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [retryModel, setRetryModel] = useState<ContentConfig['aiModel']>(job.config.aiModel);
+  const [newBudget, setNewBudget] = useState('');
 
   const statusColors: Record<JobStatus, string> = {
     pending: 'bg-yellow-100 text-yellow-800',
@@ -31,15 +36,58 @@ export default function JobCard({ job, onPauseResume, onCancel, compact = false
     ? calculateETA(job.progress.completed, job.progress.total, job.startedAt)
     : null;
 
-  const handlePauseResume = () => {
-    if (onPauseResume) {
-      onPauseResume();
+  const processedCount = job.checkpoint?.processedProductIds.length ?? 0;
+  const cost = job.progress.cost ?? 0;
+  const budgetReached = job.budget !== undefined && cost >= job.budget;
+  const skippedProducts = job.skippedProducts || [];
+
+  const handlePauseResume = async () => {
+    if (!onPauseResume) return;
+
+    setIsUpdating(true);
+    try {
+      await onPauseResume();
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const canRetryFailed = !!onRetryFailed && job.errors.length > 0 &&
+    (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled');
+
+  const handleRetryFailed = async () => {
+    if (!onRetryFailed) return;
+
+    setIsUpdating(true);
+    try {
+      await onRetryFailed(retryModel !== job.config.aiModel ? { aiModel: retryModel } : undefined);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleBudgetChange = async () => {
+    const budget = parseFloat(newBudget);
+    if (!onBudgetChange || !(budget > cost)) return;
+
+    setIsUpdating(true);
+    try {
+      await onBudgetChange(budget);
+      setNewBudget('');
+    } finally {
+      setIsUpdating(false);
     }
   };
 
-  const handleCancel = () => {
-    if (onCancel) {
-      onCancel();
+  const handleCancel = async () => {
+    if (!onCancel) return;
+    if (!confirm('Cancel this job? In-flight products will be aborted and the rest skipped.')) return;
+
+    setIsUpdating(true);
+    try {
+      await onCancel();
+    } finally {
+      setIsUpdating(false);
     }
   };
 
@@ -54,6 +102,7 @@ export default function JobCard({ job, onPauseResume, onCancel, compact = false
             </h4>
             <div className="text-xs text-gray-500">
               {job.products.length} products • Job {job.id.slice(-8)}
+              {job.parentJobId && ` • Retry of Job ${job.parentJobId.slice(-8)}`}
             </div>
           </div>
           <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusColors[job.status]}`}>
@@ -65,7 +114,8 @@ export default function JobCard({ job, onPauseResume, onCancel, compact = false
           {job.status === 'running' && (
             <button
               onClick={handlePauseResume}
-              className="text-blue-600 hover:text-blue-700 text-sm font-medium"
+              disabled={isUpdating}
+              className="text-blue-600 hover:text-blue-700 text-sm font-medium disabled:opacity-50"
             >
               Pause
             </button>
@@ -73,7 +123,8 @@ export default function JobCard({ job, onPauseResume, onCancel, compact = false
           {job.status === 'paused' && (
             <button
               onClick={handlePauseResume}
-              className="text-green-600 hover:text-green-700 text-sm font-medium"
+              disabled={isUpdating || budgetReached}
+              className="text-green-600 hover:text-green-700 text-sm font-medium disabled:opacity-50"
             >
               Resume
             </button>
@@ -81,7 +132,8 @@ export default function JobCard({ job, onPauseResume, onCancel, compact = false
           {(job.status === 'running' || job.status === 'paused') && (
             <button
               onClick={handleCancel}
-              className="text-red-600 hover:text-red-700 text-sm font-medium"
+              disabled={isUpdating}
+              className="text-red-600 hover:text-red-700 text-sm font-medium disabled:opacity-50"
             >
               Cancel
             </button>
@@ -108,6 +160,42 @@ export default function JobCard({ job, onPauseResume, onCancel, compact = false
         />
       </div>
 
+      {/* Checkpoint */}
+      {job.status === 'paused' && job.checkpoint && (
+        <div className="mb-3 text-xs text-gray-600">
+          Paused after {processedCount}/{job.progress.total} products • resumes from product {job.checkpoint.cursor + 1}
+        </div>
+      )}
+
+      {/* Budget */}
+      {job.status === 'paused' && budgetReached && (
+        <div className="mb-3 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-xs text-yellow-800">
+          <div className="mb-2">
+            Paused at its {formatCost(job.budget!)} budget ({formatCost(cost)} spent). Raise the budget to resume.
+          </div>
+          {onBudgetChange && (
+            <div className="flex items-center space-x-2">
+              <input
+                type="number"
+                min={cost}
+                step="0.01"
+                placeholder="New budget (USD)"
+                value={newBudget}
+                onChange={(e) => setNewBudget(e.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded text-xs bg-white text-gray-900"
+              />
+              <button
+                onClick={handleBudgetChange}
+                disabled={isUpdating || !(parseFloat(newBudget) > cost)}
+                className="text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+              >
+                Update Budget
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Details */}
       {isExpanded && (
         <div className="space-y-3">
@@ -159,6 +247,38 @@ export default function JobCard({ job, onPauseResume, onCancel, compact = false
                 <span className="text-gray-900">{formatDuration(eta)}</span>
               </div>
             )}
+            {(job.progress.cost !== undefined || job.budget !== undefined) && (
+              <div>
+                <span className="font-medium text-gray-600">Cost: </span>
+                <span className="text-gray-900">
+                  {formatCost(cost)}
+                  {job.budget !== undefined && ` of ${formatCost(job.budget)} budget`}
+                  {job.usage && ` • ${job.usage.totalTokens.toLocaleString()} tokens`}
+                </span>
+              </div>
+            )}
+            {job.delta ? (
+              <div>
+                <span className="font-medium text-gray-600">Delta: </span>
+                <span className="text-gray-900">
+                  {job.delta.new} new, {job.delta.changed} changed, {job.delta.stale} stale
+                  {` • ${job.delta.unchanged} unchanged left out`}
+                  {job.delta.maxContentAgeDays !== undefined && ` • stale after ${job.delta.maxContentAgeDays} days`}
+                </span>
+              </div>
+            ) : job.forceRegenerate ? (
+              <div>
+                <span className="font-medium text-gray-600">Cache: </span>
+                <span className="text-gray-900">Bypassed, every product regenerated</span>
+              </div>
+            ) : (job.progress.cacheHits ?? 0) > 0 && (
+              <div>
+                <span className="font-medium text-gray-600">Cache Hits: </span>
+                <span className="text-gray-900">
+                  {job.progress.cacheHits} of {job.progress.completed} products unchanged and reused
+                </span>
+              </div>
+            )}
           </div>
 
           {/* Configuration */}
@@ -181,6 +301,27 @@ export default function JobCard({ job, onPauseResume, onCancel, compact = false
             </div>
           </div>
 
+          {/* Skipped */}
+          {job.status === 'cancelled' && skippedProducts.length > 0 && (
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center mb-2">
+                <span className="text-gray-800 font-medium text-sm">
+                  {skippedProducts.length} Skipped Products
+                </span>
+              </div>
+              {skippedProducts.slice(0, 3).map(product => (
+                <div key={product.productId} className="text-xs text-gray-700 mb-1">
+                  {product.productName} (ID: {product.productId})
+                </div>
+              ))}
+              {skippedProducts.length > 3 && (
+                <div className="text-xs text-gray-600">
+                  + {skippedProducts.length - 3} more skipped
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Errors */}
           {job.progress.failed > 0 && (
             <div className="bg-red-50 border border-red-200 rounded-lg p-3">
@@ -192,6 +333,7 @@ export default function JobCard({ job, onPauseResume, onCancel, compact = false
               {job.errors.slice(0, 3).map((error, index) => (
                 <div key={index} className="text-xs text-red-700 mb-1">
                   {error.productName}: {error.message}
+                  {error.retryCount > 0 && ` (after ${error.retryCount} ${error.retryCount === 1 ? 'retry' : 'retries'})`}
                 </div>
               ))}
               {job.errors.length > 3 && (
@@ -199,6 +341,26 @@ export default function JobCard({ job, onPauseResume, onCancel, compact = false
                   + {job.errors.length - 3} more errors
                 </div>
               )}
+              {canRetryFailed && (
+                <div className="flex items-center justify-end space-x-2 mt-3">
+                  <select
+                    value={retryModel}
+                    onChange={(e) => setRetryModel(e.target.value as ContentConfig['aiModel'])}
+                    className="px-2 py-1 border border-red-200 rounded text-xs bg-white text-gray-900"
+                  >
+                    <option value="gpt-4o">GPT-4o</option>
+                    <option value="gpt-4">GPT-4</option>
+                    <option value="gpt-4-turbo">GPT-4 Turbo</option>
+                  </select>
+                  <button
+                    onClick={handleRetryFailed}
+                    disabled={isUpdating}
+                    className="bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded text-xs font-medium disabled:opacity-50"
+                  >
+                    Retry Failed Products
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { FishFamily, TemplateType } from '@/types/content';
+import { CostEstimate, FishBehavior, FishFamily, LLMProviderName, LocaleCode, ProductClassification, TemplateType } from '@/types/content';
+import { formatCost } from '@/lib/utils';
 
 interface NewJobModalProps {
   onClose: () => void;
@@ -14,6 +15,19 @@ interface Category {
   product_count: number;
 }
 
+interface ClassificationPreview {
+  total: number;
+  templateCounts: Partial<Record<TemplateType, number>>;
+  products: Array<{
+    productId: number;
+    name: string;
+    classification: ProductClassification;
+  }>;
+}
+
+const formatLabel = (value: string) =>
+  value.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
 const FISH_FAMILIES: FishFamily[] = [
   'cichlids',
   'tetras',
@@ -28,6 +42,15 @@ const FISH_FAMILIES: FishFamily[] = [
   'specialty'
 ];
 
+const FISH_BEHAVIORS: FishBehavior[] = [
+  'community-friendly',
+  'peaceful-schooling',
+  'semi-aggressive',
+  'territorial-aggressive',
+  'bottom-dwelling',
+  'surface-dwelling'
+];
+
 const TEMPLATE_TYPES: TemplateType[] = [
   'cichlid-aggressive',
   'cichlid-peaceful',
@@ -43,10 +66,22 @@ export default function NewJobModal({ onClose, onSubmit }: NewJobModalProps) {
   const [selectedCategories, setSelectedCategories] = useState<number[]>([]);
   const [batchSize, setBatchSize] = useState(25);
   const [concurrent, setConcurrent] = useState(5);
+  const [retries, setRetries] = useState(3);
+  const [autoClassify, setAutoClassify] = useState(true);
   const [fishFamily, setFishFamily] = useState<FishFamily>('community');
+  const [behavior, setBehavior] = useState<FishBehavior>('community-friendly');
   const [templateType, setTemplateType] = useState<TemplateType>('community-standard');
+  const [preview, setPreview] = useState<ClassificationPreview | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [provider, setProvider] = useState<LLMProviderName | ''>('');
   const [aiModel, setAiModel] = useState<'gpt-4o' | 'gpt-4' | 'gpt-4-turbo'>('gpt-4o');
   const [validation, setValidation] = useState<'strict' | 'moderate' | 'lenient'>('moderate');
+  const [locale, setLocale] = useState<LocaleCode | ''>('');
+  const [budget, setBudget] = useState('');
+  const [forceRegenerate, setForceRegenerate] = useState(false);
+  const [mode, setMode] = useState<'full' | 'delta'>('full');
+  const [maxContentAgeDays, setMaxContentAgeDays] = useState('');
+  const [estimate, setEstimate] = useState<CostEstimate | null>(null);
   const [isLoadingCategories, setIsLoadingCategories] = useState(true);
 
   // Load categories from BigCommerce on component mount
@@ -68,7 +103,33 @@ export default function NewJobModal({ onClose, onSubmit }: NewJobModalProps) {
     loadCategories();
   }, []);
 
+  // Re-estimate whenever the selection or model changes
+  useEffect(() => {
+    if (selectedCategories.length === 0) {
+      setEstimate(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const params = new URLSearchParams({
+      categories: selectedCategories.join(','),
+      aiModel,
+      ...(provider && { provider })
+    });
+
+    fetch(`/api/jobs/estimate?${params}`, { signal: controller.signal })
+      .then(response => response.ok ? response.json() : null)
+      .then(setEstimate)
+      .catch(error => {
+        if (!controller.signal.aborted) console.error('Failed to estimate job cost:', error);
+      });
+
+    return () => controller.abort();
+  }, [selectedCategories, aiModel, provider]);
+
   const handleCategoryToggle = (categoryId: number) => {
+    // A preview for the old selection would be misleading
+    setPreview(null);
     setSelectedCategories(prev =>
       prev.includes(categoryId)
         ? prev.filter(c => c !== categoryId)
@@ -76,6 +137,27 @@ export default function NewJobModal({ onClose, onSubmit }: NewJobModalProps) {
     );
   };
 
+  const handlePreview = async () => {
+    if (selectedCategories.length === 0) {
+      alert('Please select at least one category');
+      return;
+    }
+
+    setIsLoadingPreview(true);
+    try {
+      const response = await fetch(`/api/classify?categories=${selectedCategories.join(',')}`);
+      if (!response.ok) {
+        throw new Error('Failed to classify products');
+      }
+      setPreview(await response.json());
+    } catch (error) {
+      console.error('Failed to preview classification:', error);
+      alert('Failed to preview classification');
+    } finally {
+      setIsLoadingPreview(false);
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -84,16 +166,36 @@ export default function NewJobModal({ onClose, onSubmit }: NewJobModalProps) {
       return;
     }
 
+    const budgetLimit = parseFloat(budget);
+    if (budget && !(budgetLimit > 0)) {
+      alert('Budget must be a positive dollar amount');
+      return;
+    }
+
+    const maxAge = parseFloat(maxContentAgeDays);
+    if (mode === 'delta' && maxContentAgeDays && !(maxAge > 0)) {
+      alert('Maximum content age must be a positive number of days');
+      return;
+    }
+
     const jobConfig = {
       categories: selectedCategories,
       batchSize,
       concurrent,
+      retries,
+      ...(budget && { budget: budgetLimit }),
+      forceRegenerate,
+      mode,
+      ...(mode === 'delta' && maxContentAgeDays && { maxContentAgeDays: maxAge }),
       config: {
         family: fishFamily,
-        behavior: 'community-friendly',
+        behavior,
         templateType,
+        autoClassify,
+        ...(provider && { provider }),
         aiModel,
-        validation
+        validation,
+        ...(locale && { locale })
       }
     };
 
@@ -152,7 +254,7 @@ export default function NewJobModal({ onClose, onSubmit }: NewJobModalProps) {
           </div>
 
           {/* Processing Configuration */}
-          <div className="grid grid-cols-2 gap-4">
+          <div className="grid grid-cols-3 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Batch Size
@@ -179,47 +281,161 @@ export default function NewJobModal({ onClose, onSubmit }: NewJobModalProps) {
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
               />
             </div>
-          </div>
-
-          {/* AI Configuration */}
-          <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Fish Family
+                Max Retries
               </label>
-              <select
-                value={fishFamily}
-                onChange={(e) => setFishFamily(e.target.value as FishFamily)}
+              <input
+                type="number"
+                min="0"
+                max="10"
+                value={retries}
+                onChange={(e) => setRetries(parseInt(e.target.value))}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
-              >
-                {FISH_FAMILIES.map(family => (
-                  <option key={family} value={family}>
-                    {family.charAt(0).toUpperCase() + family.slice(1)}
-                  </option>
-                ))}
-              </select>
+              />
             </div>
+          </div>
+
+          {/* Classification */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Fish Classification
+            </label>
+            <select
+              value={autoClassify ? 'auto' : 'manual'}
+              onChange={(e) => setAutoClassify(e.target.value === 'auto')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+            >
+              <option value="auto">Auto (classify each product by category and name)</option>
+              <option value="manual">Manual (same family and template for every product)</option>
+            </select>
+          </div>
+
+          {autoClassify ? (
+            <div className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-600">
+                  {preview
+                    ? `${preview.total} products classified`
+                    : 'Preview which template each product will use'}
+                </span>
+                <button
+                  type="button"
+                  onClick={handlePreview}
+                  disabled={isLoadingPreview || selectedCategories.length === 0}
+                  className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium transition-colors disabled:opacity-50"
+                >
+                  {isLoadingPreview ? 'Classifying...' : 'Preview Classification'}
+                </button>
+              </div>
+
+              {preview && (
+                <div className="mt-3 space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    {Object.entries(preview.templateCounts).map(([template, count]) => (
+                      <span key={template} className="text-xs text-blue-800 bg-blue-100 px-2 py-1 rounded">
+                        {formatLabel(template)}: {count}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="max-h-48 overflow-y-auto">
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-1 pr-2 font-medium">Product</th>
+                          <th className="py-1 pr-2 font-medium">Family</th>
+                          <th className="py-1 pr-2 font-medium">Behavior</th>
+                          <th className="py-1 font-medium">Template</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.products.map(product => (
+                          <tr key={product.productId} className="border-t border-gray-100 text-gray-700">
+                            <td className="py-1 pr-2" title={product.classification.rule || 'No matching rule'}>
+                              {product.name}
+                            </td>
+                            <td className="py-1 pr-2">{formatLabel(product.classification.family)}</td>
+                            <td className="py-1 pr-2">{formatLabel(product.classification.behavior)}</td>
+                            <td className={`py-1 ${product.classification.rule ? '' : 'text-yellow-700'}`}>
+                              {formatLabel(product.classification.templateType)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Fish Family
+                </label>
+                <select
+                  value={fishFamily}
+                  onChange={(e) => setFishFamily(e.target.value as FishFamily)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+                >
+                  {FISH_FAMILIES.map(family => (
+                    <option key={family} value={family}>
+                      {formatLabel(family)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Behavior
+                </label>
+                <select
+                  value={behavior}
+                  onChange={(e) => setBehavior(e.target.value as FishBehavior)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+                >
+                  {FISH_BEHAVIORS.map(fishBehavior => (
+                    <option key={fishBehavior} value={fishBehavior}>
+                      {formatLabel(fishBehavior)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Template Type
+                </label>
+                <select
+                  value={templateType}
+                  onChange={(e) => setTemplateType(e.target.value as TemplateType)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+                >
+                  {TEMPLATE_TYPES.map(template => (
+                    <option key={template} value={template}>
+                      {formatLabel(template)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Template Type
+                AI Provider
               </label>
               <select
-                value={templateType}
-                onChange={(e) => setTemplateType(e.target.value as TemplateType)}
+                value={provider}
+                onChange={(e) => setProvider(e.target.value as LLMProviderName | '')}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
               >
-                {TEMPLATE_TYPES.map(template => (
-                  <option key={template} value={template}>
-                    {template.split('-').map(word =>
-                      word.charAt(0).toUpperCase() + word.slice(1)
-                    ).join(' ')}
-                  </option>
-                ))}
+                <option value="">Server Default</option>
+                <option value="openai">OpenAI</option>
+                <option value="openai-compatible">OpenAI-Compatible Server</option>
+                <option value="mock">Mock (Offline Fixtures)</option>
               </select>
             </div>
-          </div>
-
-          <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 AI Model
@@ -250,6 +466,99 @@ export default function NewJobModal({ onClose, onSubmit }: NewJobModalProps) {
             </div>
           </div>
 
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Content Locale
+              </label>
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as LocaleCode | '')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+              >
+                <option value="">Store Default</option>
+                <option value="en-GB">English (UK): °C, litres, cm</option>
+                <option value="en-US">English (US): °F, gallons, inches</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Products
+              </label>
+              <select
+                value={mode}
+                onChange={(e) => setMode(e.target.value as 'full' | 'delta')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+              >
+                <option value="full">All in categories</option>
+                <option value="delta">New or changed only</option>
+              </select>
+            </div>
+            {mode === 'delta' ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Max Content Age (days)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  placeholder="No limit"
+                  value={maxContentAgeDays}
+                  onChange={(e) => setMaxContentAgeDays(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+                />
+              </div>
+            ) : (
+              <div className="flex items-end">
+                <label className="flex items-start space-x-2 pb-2">
+                  <input
+                    type="checkbox"
+                    checked={forceRegenerate}
+                    onChange={(e) => setForceRegenerate(e.target.checked)}
+                    className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700">
+                    Force regenerate
+                    <span className="block text-xs text-gray-500">
+                      Otherwise products unchanged since their content was last published reuse it
+                    </span>
+                  </span>
+                </label>
+              </div>
+            )}
+          </div>
+
+          {/* Cost */}
+          <div className="grid grid-cols-3 gap-4 items-end">
+            <div className="col-span-2 text-sm text-gray-600">
+              {!estimate ? (
+                'Select categories to estimate the cost of this job'
+              ) : estimate.billed ? (
+                <>
+                  Estimated cost: <span className="font-medium text-gray-900">~{formatCost(estimate.estimatedCost)}</span>
+                  {' '}for {estimate.productCount} products (~{estimate.usage.totalTokens.toLocaleString()} tokens)
+                </>
+              ) : (
+                `${estimate.productCount} products; this provider has no per-token cost`
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Budget Cap (USD)
+              </label>
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                placeholder="No cap"
+                value={budget}
+                onChange={(e) => setBudget(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
+              />
+            </div>
+          </div>
+
           {/* Actions */}
           <div className="flex justify-end space-x-3 pt-4">
             <button
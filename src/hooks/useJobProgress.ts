@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { ProcessingJob } from '@/types/content';
+import { ContentConfig, JobUpdate, ProcessingJob } from '@/types/content';
 
 export function useJobProgress(initialJobs: ProcessingJob[] = []) {
   const [jobs, setJobs] = useState<ProcessingJob[]>(initialJobs);
@@ -30,6 +30,13 @@ export function useJobProgress(initialJobs: ProcessingJob[] = []) {
     );
   }, []);
 
+  // Merge a live update, which leaves out the job's products
+  const mergeJobUpdate = useCallback((update: JobUpdate) => {
+    setJobs(prevJobs =>
+      prevJobs.map(job => job.id === update.id ? { ...job, ...update } : job)
+    );
+  }, []);
+
   // Add new job
   const addJob = useCallback((newJob: ProcessingJob) => {
     setJobs(prevJobs => [newJob, ...prevJobs]);
@@ -81,6 +88,24 @@ export function useJobProgress(initialJobs: ProcessingJob[] = []) {
     }
   }, [updateJob]);
 
+  // Change a job's budget cap, e.g. to resume a job that reached it
+  const updateJobBudget = useCallback(async (jobId: string, budget: number) => {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ budget }),
+      });
+
+      if (response.ok) {
+        const updatedJob = await response.json();
+        updateJob(updatedJob);
+      }
+    } catch (error) {
+      console.error('Failed to update job budget:', error);
+    }
+  }, [updateJob]);
+
   // Create new job
   const createJob = useCallback(async (jobConfig: any) => {
     try {
@@ -100,6 +125,25 @@ export function useJobProgress(initialJobs: ProcessingJob[] = []) {
     }
   }, [addJob]);
 
+  // Spawn a follow-up job for a finished job's failed products
+  const retryFailedProducts = useCallback(async (jobId: string, config?: Partial<ContentConfig>) => {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/retry-failed`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ config }),
+      });
+
+      if (response.ok) {
+        const retryJob = await response.json();
+        addJob(retryJob);
+        return retryJob;
+      }
+    } catch (error) {
+      console.error('Failed to retry failed products:', error);
+    }
+  }, [addJob]);
+
   // Set up real-time polling for active jobs
   useEffect(() => {
     const activeJobs = jobs.filter(job =>
@@ -127,10 +171,13 @@ export function useJobProgress(initialJobs: ProcessingJob[] = []) {
     isLoading,
     fetchJobs,
     updateJob,
+    mergeJobUpdate,
     addJob,
     removeJob,
     toggleJobStatus,
     cancelJob,
-    createJob
+    updateJobBudget,
+    createJob,
+    retryFailedProducts
   };
 }
\ No newline at end of file
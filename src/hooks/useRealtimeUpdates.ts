@@ -1,35 +1,55 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
-import { ProcessingJob } from '@/types/content';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { JobUpdate, ProcessingJob } from '@/types/content';
+
+export interface ProductEvent {
+  jobId: string;
+  event: 'started' | 'retrying' | 'generated' | 'cached' | 'published' | 'failed';
+  productId: number;
+  productName: string;
+  message?: string;
+  timestamp: string;
+}
 
 interface UseRealtimeUpdatesProps {
   jobs: ProcessingJob[];
-  onJobUpdate: (job: ProcessingJob) => void;
+  onJobUpdate: (update: JobUpdate) => void;
+  onProductEvent?: (event: ProductEvent) => void;
   enabled?: boolean;
 }
 
 export function useRealtimeUpdates({
   jobs,
   onJobUpdate,
+  onProductEvent,
   enabled = true
 }: UseRealtimeUpdatesProps) {
   const eventSourceRef = useRef<EventSource | null>(null);
   const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const lastEventIdRef = useRef<string | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
 
-  useEffect(() => {
-    if (!enabled) return;
+  // Keep the latest callbacks without reconnecting when they change
+  const onJobUpdateRef = useRef(onJobUpdate);
+  const onProductEventRef = useRef(onProductEvent);
+  onJobUpdateRef.current = onJobUpdate;
+  onProductEventRef.current = onProductEvent;
 
-    const activeJobs = jobs.filter(job =>
-      job.status === 'running' || job.status === 'pending'
-    );
+  // Only reconnect when the set of active jobs changes, not on every progress update
+  const activeJobIds = useMemo(() => jobs
+    .filter(job => job.status === 'running' || job.status === 'pending')
+    .map(job => job.id)
+    .join(','), [jobs]);
 
-    if (activeJobs.length === 0) {
+  useEffect(() => {
+    if (!enabled || !activeJobIds) {
       // Clean up if no active jobs
       if (eventSourceRef.current) {
         eventSourceRef.current.close();
         eventSourceRef.current = null;
       }
+      setIsConnected(false);
       return;
     }
 
@@ -39,14 +59,25 @@ export function useRealtimeUpdates({
         eventSourceRef.current.close();
       }
 
-      const jobIds = activeJobs.map(job => job.id).join(',');
-      const eventSource = new EventSource(`/api/jobs/stream?ids=${jobIds}`);
+      // A fresh EventSource doesn't send Last-Event-ID, so resume via the query
+      const resumeParam = lastEventIdRef.current ? `&lastEventId=${lastEventIdRef.current}` : '';
+      const eventSource = new EventSource(`/api/jobs/stream?ids=${activeJobIds}${resumeParam}`);
+
+      eventSource.onopen = () => {
+        setIsConnected(true);
+      };
 
       eventSource.onmessage = (event) => {
+        if (event.lastEventId) {
+          lastEventIdRef.current = event.lastEventId;
+        }
+
         try {
           const data = JSON.parse(event.data);
           if (data.type === 'job_update') {
-            onJobUpdate(data.job);
+            onJobUpdateRef.current(data.job);
+          } else if (data.type === 'product_event') {
+            onProductEventRef.current?.(data);
           }
         } catch (error) {
           console.error('Failed to parse SSE data:', error);
@@ -56,6 +87,7 @@ export function useRealtimeUpdates({
       eventSource.onerror = (error) => {
         console.error('EventSource error:', error);
         eventSource.close();
+        setIsConnected(false);
 
         // Retry connection after 5 seconds
         retryTimeoutRef.current = setTimeout(() => {
@@ -78,10 +110,10 @@ export function useRealtimeUpdates({
         retryTimeoutRef.current = null;
       }
     };
-  }, [jobs, onJobUpdate, enabled]);
+  }, [activeJobIds, enabled]);
 
   return {
-    isConnected: eventSourceRef.current?.readyState === EventSource.OPEN
+    isConnected
   };
 }
 
@@ -0,0 +1,200 @@
+import { AISearchContent, CareParameters, NumericRange } from '@/types/content';
+
+const LITRES_PER_US_GALLON = 3.785;
+const LITRES_PER_UK_GALLON = 4.546;
+const CM_PER_INCH = 2.54;
+
+// Primary units for customer-facing care parameters; the other system follows in brackets.
+// 'uk' is metric with imperial rather than US gallons.
+export type UnitSystem = 'us' | 'metric' | 'uk';
+
+// Care requirement strings that couldn't be read as numbers
+export interface CareParameterFailure {
+  field: keyof CareParameters;
+  value: string;
+}
+
+const fahrenheitToCelsius = (f: number) => (f - 32) * 5 / 9;
+const celsiusToFahrenheit = (c: number) => c * 9 / 5 + 32;
+const round = (value: number, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+function range(min: string, max: string): NumericRange {
+  return { min: parseFloat(min), max: parseFloat(max) };
+}
+
+/**
+ * Temperature range in °C from text such as "76-82°F (24-28°C)". An
+ * explicit Celsius range wins over converting the Fahrenheit one; a single
+ * value such as "25°C" becomes a zero-width range.
+ */
+export function parseTemperatureC(text: string): NumericRange | null {
+  const matches = [...text.matchAll(/(\d+(?:\.\d+)?)\s*°?\s*[FC]?\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)\s*°?\s*([FC])/gi)];
+  const singles = [...text.matchAll(/(\d+(?:\.\d+)?)\s*°\s*([FC])/gi)].map(match => [match[0], match[1], match[1], match[2]]);
+  const candidates: string[][] = matches.length > 0 ? matches : singles;
+
+  const celsius = candidates.find(match => match[3].toUpperCase() === 'C');
+  if (celsius) return range(celsius[1], celsius[2]);
+
+  const fahrenheit = candidates[0];
+  if (!fahrenheit) return null;
+
+  const { min, max } = range(fahrenheit[1], fahrenheit[2]);
+  return { min: fahrenheitToCelsius(min), max: fahrenheitToCelsius(max) };
+}
+
+// pH range from text such as "6.5-7.5"; a single value becomes a zero-width range
+export function parsePh(text: string): NumericRange | null {
+  const match = text.match(/(\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)/i);
+  if (match) return range(match[1], match[2]);
+
+  const single = text.match(/\d+(?:\.\d+)?/);
+  return single ? { min: parseFloat(single[0]), max: parseFloat(single[0]) } : null;
+}
+
+/**
+ * Tank volume in litres from text such as "20 gallons (75 litres)". Stated
+ * litres win; gallons are read as US gallons unless marked UK or imperial.
+ */
+export function parseTankLitres(text: string): number | null {
+  const litres = text.match(/(\d+(?:\.\d+)?)\s*(?:litres?|liters?|l\b)/i);
+  if (litres) return parseFloat(litres[1]);
+
+  const gallons = text.match(/(\d+(?:\.\d+)?)\s*((?:UK|imperial|imp\.?)\s*)?(?:gallons?|gal\b)(\s*\((?:UK|imperial)\))?/i);
+  if (!gallons) return null;
+
+  const isUK = Boolean(gallons[2] || gallons[3]);
+  return parseFloat(gallons[1]) * (isUK ? LITRES_PER_UK_GALLON : LITRES_PER_US_GALLON);
+}
+
+// Length in centimetres from text such as "2 inches (5 cm)"; stated centimetres win
+export function parseSizeCm(text: string): number | null {
+  const cm = text.match(/(\d+(?:\.\d+)?)\s*cm\b/i);
+  if (cm) return parseFloat(cm[1]);
+
+  const mm = text.match(/(\d+(?:\.\d+)?)\s*mm\b/i);
+  if (mm) return parseFloat(mm[1]) / 10;
+
+  const inches = text.match(/(\d+(?:\.\d+)?)\s*(?:inches|inch|in\b|")/i);
+  return inches ? parseFloat(inches[1]) * CM_PER_INCH : null;
+}
+
+// Lifespan in years from text such as "3-5 years" or "18 months"; a single value becomes a zero-width range
+export function parseLifespanYears(text: string): NumericRange | null {
+  const match = text.match(/(\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)\+?\s*(years?|yrs?|months?)/i) ||
+    text.match(/((\d+(?:\.\d+)?))\+?\s*(years?|yrs?|months?)/i);
+  if (!match) return null;
+
+  const scale = /^months?$/i.test(match[3]) ? 1 / 12 : 1;
+  return { min: parseFloat(match[1]) * scale, max: parseFloat(match[2]) * scale };
+}
+
+export function temperatureFromCelsius({ min, max }: NumericRange): NonNullable<CareParameters['temperature']> {
+  return {
+    minC: round(min),
+    maxC: round(max),
+    minF: round(celsiusToFahrenheit(min)),
+    maxF: round(celsiusToFahrenheit(max))
+  };
+}
+
+export function tankSizeFromLitres(litres: number): NonNullable<CareParameters['tankSize']> {
+  return {
+    litres: round(litres),
+    usGallons: round(litres / LITRES_PER_US_GALLON),
+    ukGallons: round(litres / LITRES_PER_UK_GALLON)
+  };
+}
+
+export function lengthFromCm(cm: number): NonNullable<CareParameters['maxSize']> {
+  return { cm: round(cm), inches: round(cm / CM_PER_INCH) };
+}
+
+/**
+ * Read the numeric care parameters out of the generated strings. Fields
+ * that are present but can't be parsed are returned as failures.
+ */
+export function normalizeCareRequirements(
+  care: Partial<AISearchContent['careRequirements']>
+): { parameters: CareParameters; failures: CareParameterFailure[] } {
+  const parameters: CareParameters = {};
+  const failures: CareParameterFailure[] = [];
+
+  const read = <T>(field: keyof CareParameters, value: string | undefined, parse: (text: string) => T | null) => {
+    if (!value?.trim()) return null;
+    const parsed = parse(value);
+    if (parsed === null) failures.push({ field, value });
+    return parsed;
+  };
+
+  const temperature = read('temperature', care.temperatureRange, parseTemperatureC);
+  if (temperature) parameters.temperature = temperatureFromCelsius(temperature);
+
+  const ph = read('ph', care.phRange, parsePh);
+  if (ph) parameters.ph = { min: round(ph.min), max: round(ph.max) };
+
+  const litres = read('tankSize', care.minTankSize, parseTankLitres);
+  if (litres !== null) parameters.tankSize = tankSizeFromLitres(litres);
+
+  const cm = read('maxSize', care.maxSize, parseSizeCm);
+  if (cm !== null) parameters.maxSize = lengthFromCm(cm);
+
+  const lifespan = read('lifespanYears', care.lifespan, parseLifespanYears);
+  if (lifespan) parameters.lifespanYears = { min: round(lifespan.min), max: round(lifespan.max) };
+
+  return { parameters, failures };
+}
+
+function formatSpan(min: number, max: number, unit: string, places = 1): string {
+  const [low, high] = [round(min, places), round(max, places)];
+  return low === high ? `${low}${unit}` : `${low}-${high}${unit}`;
+}
+
+export function formatTemperature(temperature: NonNullable<CareParameters['temperature']>, units: UnitSystem): string {
+  const celsius = formatSpan(temperature.minC, temperature.maxC, '°C');
+  const fahrenheit = formatSpan(temperature.minF, temperature.maxF, '°F', 0);
+  return units === 'us' ? `${fahrenheit} (${celsius})` : `${celsius} (${fahrenheit})`;
+}
+
+export function formatTankSize(tankSize: NonNullable<CareParameters['tankSize']>, units: UnitSystem): string {
+  const litres = `${Math.round(tankSize.litres)} litres`;
+  if (units === 'us') return `${Math.round(tankSize.usGallons)} gallons (${litres})`;
+  return units === 'uk'
+    ? `${litres} (${Math.round(tankSize.ukGallons)} UK gallons)`
+    : `${litres} (${Math.round(tankSize.usGallons)} US gallons)`;
+}
+
+export function formatLength(size: NonNullable<CareParameters['maxSize']>, units: UnitSystem): string {
+  const cm = `${round(size.cm)} cm`;
+  const inches = `${round(size.inches)} ${size.inches === 1 ? 'inch' : 'inches'}`;
+  return units === 'us' ? `${inches} (${cm})` : `${cm} (${inches})`;
+}
+
+// pH keeps its decimal place, e.g. "6.0-7.5"
+export function formatPh({ min, max }: NumericRange): string {
+  return min === max ? min.toFixed(1) : `${min.toFixed(1)}-${max.toFixed(1)}`;
+}
+
+export function formatLifespan(years: NumericRange): string {
+  const unit = years.max === 1 ? ' year' : ' years';
+  return formatSpan(years.min, years.max, unit);
+}
+
+/**
+ * Display strings for the numeric care requirements in the given units.
+ * Values that couldn't be parsed are shown as generated.
+ */
+export function formatCareRequirements(
+  care: AISearchContent['careRequirements'],
+  units: UnitSystem
+): Pick<AISearchContent['careRequirements'], 'minTankSize' | 'temperatureRange' | 'phRange' | 'maxSize' | 'lifespan'> {
+  // Content generated before normalization was added has only the strings
+  const parameters = care.normalized || normalizeCareRequirements(care).parameters;
+
+  return {
+    minTankSize: parameters.tankSize ? formatTankSize(parameters.tankSize, units) : care.minTankSize,
+    temperatureRange: parameters.temperature ? formatTemperature(parameters.temperature, units) : care.temperatureRange,
+    phRange: parameters.ph ? formatPh(parameters.ph) : care.phRange,
+    maxSize: parameters.maxSize ? formatLength(parameters.maxSize, units) : care.maxSize,
+    lifespan: parameters.lifespanYears ? formatLifespan(parameters.lifespanYears) : care.lifespan
+  };
+}
@@ -1,56 +1,260 @@
-import { Product, AISearchContent, ContentConfig } from '@/types/content';
+import { Product, AISearchContent, ContentConfig, ContentSection, SpeciesReference, TokenUsage } from '@/types/content';
+import { speciesReferenceStore } from '@/lib/species/reference-store';
+import { describeReference } from '@/lib/species/fact-check';
+import { getLocaleProfile, LocaleProfile, localizedKeywords } from '@/lib/locale/profiles';
+import { getTemplate } from './templates';
+import { AI_SEARCH_CONTENT_SCHEMA, JSONSchema, sectionSchema, validateSchema } from './schema';
+import { ChatMessage, createProvider, LLMProvider } from './providers';
+import { addUsage, EMPTY_USAGE } from './usage';
+import { formatCareRequirements, normalizeCareRequirements } from './care-parameters';
+
+// The model answered, but not with content we could use
+export class AIResponseFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIResponseFormatError';
+  }
+}
+
+// Why a completion was requested; each one streams the full response from the start
+export type CompletionReason = 'initial' | 'truncated' | 'repair';
+
+// Receives the raw model output of a generation as it streams
+export interface GenerationStreamListener {
+  onCompletionStart?: (reason: CompletionReason) => void;
+  onDelta: (text: string) => void;
+}
+
+interface GenerationRequest {
+  provider: LLMProvider;
+  product: Product;
+  config: ContentConfig;
+  signal?: AbortSignal;
+  stream?: GenerationStreamListener;
+  schema: { name: string; schema: JSONSchema }; // What the response must match
+  section?: ContentSection; // Set when regenerating a single section
+  usage: TokenUsage; // Accumulated across this generation's calls
+  repaired: boolean; // Set when the response needed a repair round-trip to match the schema
+}
+
+const SYSTEM_PROMPT = 'You are an expert aquarium specialist. Always respond with valid JSON only, no additional text.';
+
+// Bump when the prompt or response handling changes, so jobs regenerate cached content
+export const PROMPT_VERSION = 1;
+
+const DEFAULT_MAX_TOKENS = 2000;
+const TRUNCATION_MAX_TOKENS = 4000;
 
 export class AIContentGenerator {
-  private apiKey: string;
+  private provider: LLMProvider | null;
+  private usage: TokenUsage = EMPTY_USAGE;
 
-  constructor(apiKey?: string) {
-    this.apiKey = apiKey || process.env.OPENAI_API_KEY || '';
+  constructor(provider?: LLMProvider) {
+    this.provider = provider || null;
+  }
+
+  /**
+   * Tokens used by every call this generator has made, including failed generations
+   */
+  getUsage(): TokenUsage {
+    return this.usage;
   }
 
   async generateContent(
     product: Product,
-    config: ContentConfig
+    config: ContentConfig,
+    signal?: AbortSignal,
+    stream?: GenerationStreamListener
   ): Promise<AISearchContent> {
-    if (!this.apiKey) {
-      throw new Error('OpenAI API key is required for content generation');
+    try {
+      // A provider passed to the constructor wins over the config and LLM_PROVIDER
+      const provider = this.provider || createProvider(config.provider);
+      const request: GenerationRequest = {
+        provider,
+        product,
+        config,
+        signal,
+        stream,
+        schema: { name: 'ai_search_content', schema: AI_SEARCH_CONTENT_SCHEMA },
+        usage: EMPTY_USAGE,
+        repaired: false
+      };
+
+      const reference = await speciesReferenceStore.findForProduct(product);
+      const data = await this.completeAndParse([
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: this.buildPrompt(product, config, reference) }
+      ], request);
+
+      const content = this.buildContent(data, product, config, this.describeModel(provider, config));
+      content.metadata.usage = request.usage;
+      content.metadata.repaired = request.repaired;
+
+      // The product name may not identify the species, but the generated names usually do
+      const checkedAgainst = reference || await speciesReferenceStore.findByNames([
+        content.basicInfo.scientificName,
+        ...(content.basicInfo.commonNames || [])
+      ]);
+      if (checkedAgainst) content.metadata.speciesReference = checkedAgainst;
+
+      return content;
+    } catch (error) {
+      console.error('OpenAI API call failed:', error);
+      throw new Error(
+        `Failed to generate AI content: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { cause: error }
+      );
     }
+  }
 
+  /**
+   * Regenerate one section of existing content, optionally following an
+   * editor's instruction, and merge it in. The model sees the rest of the
+   * content as its own earlier answer so the new section stays consistent.
+   */
+  async regenerateSection(
+    content: AISearchContent,
+    product: Product,
+    config: ContentConfig,
+    section: ContentSection,
+    instruction?: string,
+    signal?: AbortSignal
+  ): Promise<AISearchContent> {
     try {
-      const prompt = this.buildPrompt(product, config);
-      const response = await this.callOpenAI(prompt, config);
-      const parsedContent = this.parseOpenAIResponse(response, product, config);
+      const provider = this.provider || createProvider(config.provider);
+      const request: GenerationRequest = {
+        provider,
+        product,
+        config,
+        signal,
+        schema: { name: `ai_search_content_${section}`, schema: sectionSchema(section) },
+        section,
+        usage: EMPTY_USAGE,
+        repaired: false
+      };
+
+      const reference = content.metadata.speciesReference || await speciesReferenceStore.findForProduct(product);
+      const { basicInfo, careRequirements, compatibility, aiContext, breeding } = content;
+      const { normalized, ...generatedCare } = careRequirements;
+
+      const data = await this.completeAndParse([
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: this.buildPrompt(product, config, reference) },
+        {
+          role: 'assistant',
+          content: JSON.stringify({ basicInfo, careRequirements: generatedCare, compatibility, aiContext, breeding }, null, 2)
+        },
+        { role: 'user', content: this.buildSectionPrompt(section, instruction) }
+      ], request);
+
+      const updated: AISearchContent = {
+        ...content,
+        [section]: data[section],
+        metadata: {
+          ...content.metadata,
+          lastUpdated: new Date().toISOString(),
+          config: { ...config, autoClassify: false },
+          sources: [...new Set([...content.metadata.sources, this.describeModel(provider, config)])],
+          usage: addUsage(content.metadata.usage || EMPTY_USAGE, request.usage),
+          // The other sections still come from the earlier response
+          repaired: Boolean(content.metadata.repaired) || request.repaired
+        }
+      };
 
-      return parsedContent;
+      // Derived fields follow the section they come from
+      if (section === 'careRequirements') {
+        updated.careRequirements.normalized = normalizeCareRequirements(updated.careRequirements).parameters;
+      }
+      if (section === 'basicInfo') {
+        updated.searchKeywords = this.generateSearchKeywords(updated.basicInfo, product, getLocaleProfile(config.locale));
+      }
+
+      return updated;
     } catch (error) {
-      console.error('OpenAI API call failed:', error);
-      throw new Error(`Failed to generate AI content: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`Regenerating ${section} failed:`, error);
+      throw new Error(
+        `Failed to regenerate ${section}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { cause: error }
+      );
     }
   }
 
-  private buildPrompt(product: Product, config: ContentConfig): string {
+  /**
+   * Request a completion and parse it against the request's schema, with
+   * one repair round-trip showing the model its output and what's wrong with it
+   */
+  private async completeAndParse(messages: ChatMessage[], request: GenerationRequest): Promise<any> {
+    const response = await this.requestCompletion(messages, request, 'initial');
+    let { data, problems } = this.parseResponse(response, request.schema.schema);
+
+    if (problems.length > 0) {
+      request.repaired = true;
+      console.warn(`Repairing AI response for ${request.product.name}: ${problems.slice(0, 5).join('; ')}`);
+
+      const repaired = await this.requestCompletion([
+        ...messages,
+        { role: 'assistant', content: response },
+        { role: 'user', content: this.buildRepairPrompt(problems) }
+      ], request, 'repair');
+      ({ data, problems } = this.parseResponse(repaired, request.schema.schema));
+
+      if (problems.length > 0) {
+        throw new AIResponseFormatError(
+          `AI response still invalid after repair: ${problems.slice(0, 5).join('; ')}`
+        );
+      }
+    }
+
+    return data;
+  }
+
+  private buildPrompt(product: Product, config: ContentConfig, reference: SpeciesReference | null): string {
+    const template = getTemplate(config.templateType);
+    const lengthLimits = Object.entries(template.validation.maxLengths)
+      .map(([field, maxLength]) => `- ${field}: at most ${maxLength} characters`)
+      .join('\n');
+    const locale = getLocaleProfile(config.locale);
+    const referenceLines = reference ? describeReference(reference, locale.units) : [];
+    const grounding = reference && referenceLines.length > 0
+      ? `\nReference data for ${reference.scientificName} from our species database. Keep care requirements consistent with it:\n${referenceLines.map(line => `- ${line}`).join('\n')}\n`
+      : '';
+
     return `You are an expert aquarium specialist writing detailed care information for "${product.name}".
 
 Product Details:
 - Name: ${product.name}
 - Categories: ${product.categories.join(', ')}
-- Template: ${config.templateType}
+- Template: ${template.type}
 - Fish Family: ${config.family}
 
+Writing for ${locale.label} customers:
+- Use ${locale.spelling}
+- Quote any prices or running costs in ${locale.currency.code} (${locale.currency.symbol})
+- Give measurements in the units shown in the JSON structure below, even where the example uses others
+${grounding}
+Section guidance for this type of fish:
+- basicInfo: ${template.prompts.basicInfo}
+- careRequirements: ${template.prompts.careRequirements}
+- compatibility: ${template.prompts.compatibility}
+- breeding: ${template.prompts.breeding}
+- aiContext: ${template.prompts.aiContext}
+
 Generate comprehensive aquarium care information in JSON format with the following structure:
 
 {
   "basicInfo": {
     "scientificName": "Actual scientific name",
     "commonNames": ["Primary name", "Alternative names"],
+    "category": "Shop category, e.g. Tetras or Dwarf Cichlids",
     "family": "Actual fish family",
     "origin": "Natural habitat/geographic origin",
     "waterType": "Freshwater/Saltwater"
   },
   "careRequirements": {
-    "minTankSize": "X gallons minimum",
-    "temperatureRange": "XX-XX°F (XX-XX°C)",
+    "minTankSize": "${locale.careFormats.minTankSize}",
+    "temperatureRange": "${locale.careFormats.temperatureRange}",
     "phRange": "X.X-X.X",
-    "maxSize": "X inches",
+    "maxSize": "${locale.careFormats.maxSize}",
     "diet": "Detailed diet information",
     "careLevel": "Beginner/Intermediate/Advanced",
     "temperament": "Peaceful/Semi-aggressive/Aggressive",
@@ -60,7 +264,8 @@ Generate comprehensive aquarium care information in JSON format with the followi
   "compatibility": {
     "compatibleWith": ["List of compatible species"],
     "avoidWith": ["List of incompatible species"],
-    "tankMateCategories": ["Community types"]
+    "tankMateCategories": ["Community types"],
+    "similarSpecies": ["Species with similar care"]
   },
   "aiContext": {
     "whyPopular": "Why this fish is popular with aquarists",
@@ -71,101 +276,195 @@ Generate comprehensive aquarium care information in JSON format with the followi
         "answer": "Detailed answer"
       }
     ],
-    "alternativeNames": ["Other names"],
-    "expertTips": ["Professional care tips"]
+    "alternativeNames": ["Other names"]
   },
   "breeding": {
+    "breedingType": "Egg scatterer/Mouthbrooder/Livebearer/etc.",
     "breedingDifficulty": "Easy/Moderate/Difficult",
-    "breedingNotes": "Detailed breeding information",
-    "sexingNotes": "How to identify males/females"
+    "breedingNotes": "Detailed breeding information, including how to identify males/females"
   }
 }
 
-Provide accurate, detailed information specific to this species. Do not use generic placeholders.`;
+These fields are required and must not be empty:
+${template.validation.required.map(field => `- ${field}`).join('\n')}
+
+Length limits:
+${lengthLimits}
+
+Example of the expected detail and tone for ${template.examples.commonName} (${template.examples.scientificName}), partial:
+${JSON.stringify(this.localizeSample(template.examples.sampleOutput, locale), null, 2)}
+
+Provide accurate, detailed information specific to this species, not the example. Do not use generic placeholders.`;
   }
 
-  private async callOpenAI(prompt: string, config: ContentConfig): Promise<string> {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: config.aiModel || 'gpt-4o',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert aquarium specialist. Always respond with valid JSON only, no additional text.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 2000
-      })
-    });
+  /**
+   * Template samples are written in US units; show their measurements the
+   * way this locale writes them so the example doesn't contradict its formats.
+   * Anything after the measurement, e.g. "for a group of ten", is kept.
+   */
+  private localizeSample(sample: Partial<AISearchContent>, locale: LocaleProfile): Partial<AISearchContent> {
+    const care = sample.careRequirements;
+    if (!care) return sample;
 
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-    }
+    const formatted = formatCareRequirements(care, locale.units);
+    const withQualifier = (original: string, display: string) => {
+      const end = original.indexOf(')');
+      return display === original || end === -1 ? display : `${display}${original.slice(end + 1)}`;
+    };
 
-    const data = await response.json();
-    return data.choices[0]?.message?.content || '';
+    return {
+      ...sample,
+      careRequirements: {
+        ...care,
+        minTankSize: withQualifier(care.minTankSize, formatted.minTankSize),
+        temperatureRange: withQualifier(care.temperatureRange, formatted.temperatureRange),
+        maxSize: withQualifier(care.maxSize, formatted.maxSize)
+      }
+    };
   }
 
-  private parseOpenAIResponse(response: string, product: Product, config: ContentConfig): AISearchContent {
-    try {
-      // Clean the response to extract JSON
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No valid JSON found in OpenAI response');
+  private buildSectionPrompt(section: ContentSection, instruction?: string): string {
+    const editorNote = instruction?.trim()
+      ? `\nThe editor's instruction for this section: ${instruction.trim()}\n`
+      : '';
+
+    return `Rewrite the "${section}" section of your answer.
+${editorNote}
+Keep it consistent with the other sections and follow the same structure, field requirements and length limits. Return a JSON object with only the "${section}" key, holding the complete section with every field filled in.`;
+  }
+
+  private buildRepairPrompt(problems: string[]): string {
+    return `Your previous response does not match the required JSON structure:
+${problems.slice(0, 20).map(problem => `- ${problem}`).join('\n')}
+
+Return the complete corrected JSON object only, with every field filled in.`;
+  }
+
+  /**
+   * Call the model, retrying once with a larger token budget if the output was cut off
+   */
+  private async requestCompletion(
+    messages: ChatMessage[],
+    request: GenerationRequest,
+    reason: CompletionReason
+  ): Promise<string> {
+    let completion = await this.callProvider(messages, request, DEFAULT_MAX_TOKENS, reason);
+
+    if (completion.finishReason === 'length') {
+      console.warn(`AI response truncated at ${DEFAULT_MAX_TOKENS} tokens, retrying with ${TRUNCATION_MAX_TOKENS}`);
+      completion = await this.callProvider(messages, request, TRUNCATION_MAX_TOKENS, 'truncated');
+
+      if (completion.finishReason === 'length') {
+        throw new AIResponseFormatError(`AI response truncated at ${TRUNCATION_MAX_TOKENS} tokens`);
       }
+    }
 
-      const parsedData = JSON.parse(jsonMatch[0]);
+    if (completion.refusal) {
+      throw new AIResponseFormatError(`Model refused to generate content: ${completion.refusal}`);
+    }
+
+    return completion.content;
+  }
 
-      // Construct the full AISearchContent object
+  private async callProvider(
+    messages: ChatMessage[],
+    request: GenerationRequest,
+    maxTokens: number,
+    reason: CompletionReason
+  ) {
+    const { provider, product, config, signal, stream, schema, section } = request;
+    stream?.onCompletionStart?.(reason);
+
+    const completion = await provider.complete({
+      messages,
+      model: this.resolveModel(provider, config),
+      maxTokens,
+      temperature: 0.7,
+      schema,
+      signal,
+      onDelta: stream?.onDelta,
+      context: { product, config, section }
+    });
+
+    // Counted before the response is checked: a truncated or refused completion is still billed
+    request.usage = addUsage(request.usage, completion.usage);
+    this.usage = addUsage(this.usage, completion.usage);
+    return completion;
+  }
+
+  private resolveModel(provider: LLMProvider, config: ContentConfig): string {
+    return provider.defaultModel || config.aiModel || 'gpt-4o';
+  }
+
+  private describeModel(provider: LLMProvider, config: ContentConfig): string {
+    const model = this.resolveModel(provider, config);
+    return provider.name === 'openai' ? `OpenAI ${model}` : `${provider.name} ${model}`;
+  }
+
+  /**
+   * Parse a response as JSON and check it against the expected schema.
+   * Problems are returned rather than thrown so they can be sent back for repair.
+   */
+  private parseResponse(response: string, schema: JSONSchema): { data: any; problems: string[] } {
+    // Without structured outputs the model may still wrap the JSON in a code fence
+    const json = response.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+    let data: any;
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
       return {
-        productId: product.productId,
-        type: 'ai-search',
-        version: '1.0',
-        basicInfo: parsedData.basicInfo,
-        searchKeywords: this.generateSearchKeywords(parsedData.basicInfo, product),
-        careRequirements: parsedData.careRequirements,
-        compatibility: parsedData.compatibility,
-        aiContext: parsedData.aiContext,
-        relatedProducts: {
-          complementaryProducts: [],
-          similarSpecies: []
-        },
-        breeding: parsedData.breeding,
-        metadata: {
-          generatedAt: new Date().toISOString(),
-          lastUpdated: new Date().toISOString(),
-          confidence: 'high',
-          sources: ['OpenAI GPT-4o'],
-          fishFamily: config.family,
-          template: config.templateType
-        }
+        data: null,
+        problems: [`Response is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`]
       };
-    } catch (error) {
-      console.error('Failed to parse OpenAI response:', error);
-      console.error('Raw response:', response);
-      throw new Error('Failed to parse AI-generated content');
     }
+
+    return { data, problems: validateSchema(data, schema) };
+  }
+
+  private buildContent(parsedData: any, product: Product, config: ContentConfig, source: string): AISearchContent {
+    const locale = getLocaleProfile(config.locale);
+
+    return {
+      productId: product.productId,
+      type: 'ai-search',
+      version: '1.0',
+      basicInfo: parsedData.basicInfo,
+      searchKeywords: this.generateSearchKeywords(parsedData.basicInfo, product, locale),
+      careRequirements: {
+        ...parsedData.careRequirements,
+        normalized: normalizeCareRequirements(parsedData.careRequirements).parameters
+      },
+      compatibility: parsedData.compatibility,
+      aiContext: parsedData.aiContext,
+      // Matched against our catalog by the recommendation step
+      relatedProducts: {
+        complementaryProducts: [],
+        similarSpecies: [],
+        compatibleSpecies: []
+      },
+      breeding: parsedData.breeding,
+      metadata: {
+        generatedAt: new Date().toISOString(),
+        lastUpdated: new Date().toISOString(),
+        confidence: 'unscored', // Set by assessContent once the content is validated
+        sources: [source],
+        fishFamily: config.family,
+        template: config.templateType,
+        // Pinned as resolved, so regenerating reproduces this version's family and locale
+        config: { ...config, autoClassify: false, locale: locale.code },
+        locale: locale.code
+      }
+    };
   }
 
-  private generateSearchKeywords(basicInfo: any, product: Product): string[] {
+  private generateSearchKeywords(basicInfo: AISearchContent['basicInfo'], product: Product, locale: LocaleProfile): string[] {
     const keywords = [
       product.name,
       basicInfo.scientificName,
-      ...basicInfo.commonNames,
+      ...(basicInfo.commonNames || []),
       basicInfo.family,
-      'aquarium',
-      'fish care',
-      'freshwater'
+      ...localizedKeywords(locale, basicInfo.waterType)
     ];
 
     return [...new Set(keywords.filter(Boolean))];
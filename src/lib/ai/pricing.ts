@@ -0,0 +1,62 @@
+import { ContentConfig, CostEstimate, LLMProviderName, ProcessingJob, TokenUsage } from '@/types/content';
+
+type AIModel = ContentConfig['aiModel'];
+
+// USD per million tokens, from OpenAI's published pricing
+export const MODEL_PRICING: Record<AIModel, { inputPerMillion: number; outputPerMillion: number }> = {
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 },
+  'gpt-4': { inputPerMillion: 30, outputPerMillion: 60 }
+};
+
+// One generation's typical usage: the prompt carries the template guidance and a few-shot example
+export const ESTIMATED_TOKENS_PER_PRODUCT: Omit<TokenUsage, 'totalTokens'> = {
+  promptTokens: 2200,
+  completionTokens: 1400
+};
+
+// Allowance for truncation, repair and validation retries on top of one generation each
+const RETRY_ALLOWANCE = 1.15;
+
+/**
+ * Whether usage under this config is billed per token. Self-hosted
+ * OpenAI-compatible servers and the mock provider cost nothing per call.
+ */
+export function isBilled(config: Pick<ContentConfig, 'provider'>): boolean {
+  const provider = config.provider || (process.env.LLM_PROVIDER as LLMProviderName | undefined) || 'openai';
+  return provider === 'openai';
+}
+
+/**
+ * USD cost of token usage under a job's config
+ */
+export function calculateCost(usage: TokenUsage, config: Pick<ContentConfig, 'aiModel' | 'provider'>): number {
+  if (!isBilled(config)) return 0;
+
+  const pricing = MODEL_PRICING[config.aiModel] || MODEL_PRICING['gpt-4o'];
+  return (usage.promptTokens * pricing.inputPerMillion + usage.completionTokens * pricing.outputPerMillion) / 1_000_000;
+}
+
+/**
+ * Expected usage and cost of generating content for `productCount` products
+ */
+export function estimateJobCost(
+  productCount: number,
+  config: Pick<ContentConfig, 'aiModel' | 'provider'>
+): CostEstimate {
+  const promptTokens = Math.round(productCount * ESTIMATED_TOKENS_PER_PRODUCT.promptTokens * RETRY_ALLOWANCE);
+  const completionTokens = Math.round(productCount * ESTIMATED_TOKENS_PER_PRODUCT.completionTokens * RETRY_ALLOWANCE);
+  const usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+
+  return {
+    productCount,
+    aiModel: config.aiModel,
+    billed: isBilled(config),
+    usage,
+    estimatedCost: calculateCost(usage, config)
+  };
+}
+
+export function isOverBudget(job: Pick<ProcessingJob, 'budget' | 'progress'>): boolean {
+  return job.budget !== undefined && (job.progress.cost ?? 0) >= job.budget;
+}
@@ -0,0 +1,342 @@
+import { AISearchContent, TemplateType } from '@/types/content';
+
+// The sections of AISearchContent a model generates
+export type GeneratedSections = Pick<
+  AISearchContent,
+  'basicInfo' | 'careRequirements' | 'compatibility' | 'aiContext' | 'breeding'
+>;
+
+export interface SpeciesFixture {
+  match: RegExp; // Tested against the product name
+  template: TemplateType;
+  content: GeneratedSections;
+}
+
+/**
+ * Hand-checked content for one representative species per template, used by
+ * the mock provider so development runs produce realistic output offline
+ */
+export const SPECIES_FIXTURES: SpeciesFixture[] = [
+  {
+    match: /red zebra|estherae/i,
+    template: 'cichlid-aggressive',
+    content: {
+      basicInfo: {
+        scientificName: 'Maylandia estherae',
+        commonNames: ['Red Zebra Cichlid', 'Estherae Zebra'],
+        category: 'Lake Malawi Cichlids',
+        family: 'Cichlidae',
+        origin: 'Rocky shorelines of eastern Lake Malawi, Mozambique',
+        waterType: 'Freshwater'
+      },
+      careRequirements: {
+        minTankSize: '55 gallons (208 litres) for a group of one male and three or more females',
+        temperatureRange: '76-82°F (24-28°C)',
+        phRange: '7.8-8.6',
+        maxSize: '5 inches (13 cm)',
+        diet: 'Herbivore-leaning omnivore: spirulina-based flakes and pellets, with little protein to avoid Malawi bloat',
+        careLevel: 'Intermediate',
+        temperament: 'Aggressive',
+        socialNeeds: 'Keep one male with several females among plenty of rock caves to break up territories',
+        lifespan: '8-10 years'
+      },
+      compatibility: {
+        compatibleWith: ['Labidochromis caeruleus', 'Pseudotropheus saulosi', 'Synodontis multipunctatus', 'Iodotropheus sprengerae'],
+        avoidWith: ['Neon Tetra', 'Fancy Guppy', 'Angelfish', 'Other red or orange mbuna'],
+        tankMateCategories: ['Lake Malawi mbuna', 'Robust African catfish'],
+        similarSpecies: ['Cobalt Blue Zebra', 'Pseudotropheus demasoni', 'Maylandia lombardoi']
+      },
+      aiContext: {
+        whyPopular: 'Females are a vivid orange-red and males powder blue, giving a striking colour contrast in a rocky Malawi display.',
+        keySellingPoints: ['Bright colour in both sexes', 'Hardy and active', 'Readily breeds in aquaria'],
+        commonQuestions: [
+          { question: 'Can I keep a Red Zebra with peaceful community fish?', answer: 'No. They are territorial mbuna and will harass or kill small, peaceful fish. Keep them with other Malawi cichlids of similar temperament.' },
+          { question: 'How many should I keep together?', answer: 'One male with at least three females spreads aggression. Larger mbuna tanks are often deliberately stocked heavily with strong filtration.' },
+          { question: 'What water do they need?', answer: 'Hard, alkaline water with a pH of 7.8-8.6. Crushed coral or aragonite substrate helps hold the pH.' }
+        ],
+        alternativeNames: ['Metriaclima estherae', 'Pseudotropheus estherae']
+      },
+      breeding: {
+        breedingType: 'Maternal mouthbrooder',
+        breedingDifficulty: 'Easy',
+        breedingNotes: 'The female holds eggs in her mouth for about three weeks and releases free-swimming fry. Males are blue and larger with egg spots on the anal fin; females are orange.'
+      }
+    }
+  },
+  {
+    match: /\bram\b|ramirezi/i,
+    template: 'cichlid-peaceful',
+    content: {
+      basicInfo: {
+        scientificName: 'Mikrogeophagus ramirezi',
+        commonNames: ['German Blue Ram', 'Ram Cichlid', 'Butterfly Cichlid'],
+        category: 'Dwarf Cichlids',
+        family: 'Cichlidae',
+        origin: 'Orinoco River basin savanna pools, Venezuela and Colombia',
+        waterType: 'Freshwater'
+      },
+      careRequirements: {
+        minTankSize: '20 gallons (75 litres) for a pair',
+        temperatureRange: '80-86°F (27-30°C)',
+        phRange: '5.0-7.0',
+        maxSize: '2.5 inches (6 cm)',
+        diet: 'Omnivore: quality micro pellets with frozen bloodworm, brine shrimp and daphnia',
+        careLevel: 'Intermediate',
+        temperament: 'Peaceful',
+        socialNeeds: 'Best kept as a bonded pair; several pairs need a larger tank with visual barriers',
+        lifespan: '2-4 years'
+      },
+      compatibility: {
+        compatibleWith: ['Cardinal Tetra', 'Rummy Nose Tetra', 'Sterbai Corydoras', 'Pencilfish'],
+        avoidWith: ['Tiger Barb', 'Convict Cichlid', 'Oscar', 'Goldfish'],
+        tankMateCategories: ['Soft water community fish', 'Small peaceful catfish'],
+        similarSpecies: ['Bolivian Ram', 'Apistogramma cacatuoides', 'Apistogramma agassizii']
+      },
+      aiContext: {
+        whyPopular: 'Intense blue spangling and red eyes make it one of the most colourful dwarf cichlids that suits a planted community tank.',
+        keySellingPoints: ['Brilliant colouration', 'Peaceful for a cichlid', 'Interesting pair behaviour'],
+        commonQuestions: [
+          { question: 'Why is my ram hiding or losing colour?', answer: 'Usually water quality or temperature. Rams need warm, clean, soft water and are sensitive to nitrate build-up.' },
+          { question: 'Can rams go in a community tank?', answer: 'Yes, with calm fish that enjoy the same warm soft water. Avoid boisterous feeders and fin nippers.' },
+          { question: 'Should I keep one or a pair?', answer: 'A pair shows the best colour and behaviour. Single rams do fine too, but two males will squabble in small tanks.' }
+        ],
+        alternativeNames: ['Microgeophagus ramirezi', 'Papiliochromis ramirezi']
+      },
+      breeding: {
+        breedingType: 'Open substrate spawner',
+        breedingDifficulty: 'Moderate',
+        breedingNotes: 'Pairs clean a flat stone and lay 150-300 eggs, guarding them and the fry. Males have a taller, extended second dorsal ray; females show a pink belly.'
+      }
+    }
+  },
+  {
+    match: /neon tetra|innesi/i,
+    template: 'tetra-schooling',
+    content: {
+      basicInfo: {
+        scientificName: 'Paracheirodon innesi',
+        commonNames: ['Neon Tetra'],
+        category: 'Tetras',
+        family: 'Characidae',
+        origin: 'Blackwater and clearwater streams of the upper Amazon basin, Peru and Colombia',
+        waterType: 'Freshwater'
+      },
+      careRequirements: {
+        minTankSize: '15 gallons (57 litres) for a group of ten',
+        temperatureRange: '72-79°F (22-26°C)',
+        phRange: '5.0-7.0',
+        maxSize: '1.5 inches (4 cm)',
+        diet: 'Micropredator: small flakes and micro pellets with frozen or live daphnia and baby brine shrimp',
+        careLevel: 'Beginner',
+        temperament: 'Peaceful',
+        socialNeeds: 'Shoaling fish: keep at least ten together or they become stressed and pale',
+        lifespan: '5-8 years'
+      },
+      compatibility: {
+        compatibleWith: ['Harlequin Rasbora', 'Panda Corydoras', 'Otocinclus', 'Honey Gourami'],
+        avoidWith: ['Angelfish', 'Oscar', 'Red Zebra Cichlid', 'Large barbs'],
+        tankMateCategories: ['Small peaceful community fish', 'Peaceful bottom dwellers'],
+        similarSpecies: ['Cardinal Tetra', 'Green Neon Tetra', 'Ember Tetra']
+      },
+      aiContext: {
+        whyPopular: 'The electric blue and red stripe glows in a planted tank, and a large shoal is one of the classic sights of the hobby.',
+        keySellingPoints: ['Iconic colour', 'Peaceful', 'Striking in large shoals'],
+        commonQuestions: [
+          { question: 'How many neon tetras should I keep?', answer: 'At least ten. They are a shoaling species and feel secure, and colour up best, in numbers.' },
+          { question: 'Why do my neons lose colour at night?', answer: 'Neons fade when resting in the dark and brighten again when lights come on. Constant paleness points to stress or poor water.' },
+          { question: 'Are neon tetras good for a new tank?', answer: 'They are better added to a mature, stable aquarium; they are sensitive to the swings of a newly cycled tank.' }
+        ],
+        alternativeNames: ['Neon']
+      },
+      breeding: {
+        breedingType: 'Egg scatterer',
+        breedingDifficulty: 'Difficult',
+        breedingNotes: 'Needs very soft, acidic water and dim light in a separate tank; remove parents after spawning and feed fry infusoria. Females are rounder, making the stripe look bent.'
+      }
+    }
+  },
+  {
+    match: /guppy|guppies|reticulata/i,
+    template: 'livebearer-breeding',
+    content: {
+      basicInfo: {
+        scientificName: 'Poecilia reticulata',
+        commonNames: ['Fancy Guppy', 'Guppy', 'Millionfish'],
+        category: 'Livebearers',
+        family: 'Poeciliidae',
+        origin: 'Line-bred form of a species native to Venezuela, Trinidad and northern Brazil',
+        waterType: 'Freshwater'
+      },
+      careRequirements: {
+        minTankSize: '10 gallons (38 litres) for a small group',
+        temperatureRange: '72-82°F (22-28°C)',
+        phRange: '7.0-8.0',
+        maxSize: '2 inches (5 cm)',
+        diet: 'Omnivore: quality flakes with frozen bloodworm, daphnia and some vegetable matter',
+        careLevel: 'Beginner',
+        temperament: 'Peaceful',
+        socialNeeds: 'Keep two to three females per male to spread male attention',
+        lifespan: '2-3 years'
+      },
+      compatibility: {
+        compatibleWith: ['Platy', 'Panda Corydoras', 'Harlequin Rasbora', 'Bristlenose Pleco'],
+        avoidWith: ['Tiger Barb', 'Serpae Tetra', 'Red Zebra Cichlid', 'Betta'],
+        tankMateCategories: ['Peaceful hard water community fish', 'Small catfish'],
+        similarSpecies: ["Endler's Livebearer", 'Platy', 'Molly']
+      },
+      aiContext: {
+        whyPopular: 'Endless colour and fin varieties, hardiness and easy breeding make guppies a favourite first fish.',
+        keySellingPoints: ['Huge range of colours', 'Hardy', 'Breeds readily'],
+        commonQuestions: [
+          { question: 'How often do guppies give birth?', answer: 'Roughly every 28 days. Females store sperm, so one mating can produce several broods.' },
+          { question: 'How do I tell males from females?', answer: 'Males are smaller and brightly coloured with a rod-shaped gonopodium; females are larger, plainer and have a fan-shaped anal fin.' },
+          { question: 'How do I save the fry?', answer: 'Dense floating plants or a breeding box give fry cover; adults, including the parents, eat them.' }
+        ],
+        alternativeNames: ['Millionfish', 'Rainbow Fish']
+      },
+      breeding: {
+        breedingType: 'Livebearer',
+        breedingDifficulty: 'Easy',
+        breedingNotes: 'Gestation is about 28 days with 20-60 fry per brood. A dark gravid spot signals an imminent birth. Males are smaller and colourful with a gonopodium.'
+      }
+    }
+  },
+  {
+    match: /corydoras|\bcory\b|panda/i,
+    template: 'catfish-bottom',
+    content: {
+      basicInfo: {
+        scientificName: 'Corydoras panda',
+        commonNames: ['Panda Corydoras', 'Panda Cory'],
+        category: 'Catfish',
+        family: 'Callichthyidae',
+        origin: 'Upper Amazon tributaries of the Ucayali system, Peru',
+        waterType: 'Freshwater'
+      },
+      careRequirements: {
+        minTankSize: '20 gallons (75 litres) for a group of six',
+        temperatureRange: '68-77°F (20-25°C)',
+        phRange: '6.0-7.5',
+        maxSize: '2 inches (5 cm)',
+        diet: 'Omnivore: sinking wafers and granules with frozen bloodworm, fed after lights out as well as during the day',
+        careLevel: 'Beginner',
+        temperament: 'Peaceful',
+        socialNeeds: 'Keep a group of at least six of the same species on soft sand',
+        lifespan: '10 years'
+      },
+      compatibility: {
+        compatibleWith: ['Neon Tetra', 'Harlequin Rasbora', 'Dwarf Gourami', 'Otocinclus'],
+        avoidWith: ['Oscar', 'Red Zebra Cichlid', 'Large loaches', 'Goldfish'],
+        tankMateCategories: ['Peaceful mid-water shoaling fish', 'Small community fish'],
+        similarSpecies: ['Sterbai Corydoras', 'Bronze Corydoras', 'Pygmy Corydoras']
+      },
+      aiContext: {
+        whyPopular: 'Panda markings, constant busy foraging and a peaceful nature make them a charming addition to a community tank.',
+        keySellingPoints: ['Distinctive panda pattern', 'Peaceful', 'Active during the day'],
+        commonQuestions: [
+          { question: 'Will corydoras clean my tank?', answer: 'They scavenge leftovers but need their own sinking food. They are not a substitute for cleaning.' },
+          { question: 'What substrate do they need?', answer: 'Soft sand or smooth fine gravel; sharp gravel damages their barbels.' },
+          { question: 'How many should I keep?', answer: 'Six or more of the same species. Lone corydoras are stressed and shy.' }
+        ],
+        alternativeNames: ['Panda Catfish']
+      },
+      breeding: {
+        breedingType: 'Egg layer',
+        breedingDifficulty: 'Moderate',
+        breedingNotes: 'Spawning in the T-position is often triggered by a cool water change. Eggs are stuck to glass and plants. Females are larger and broader when seen from above.'
+      }
+    }
+  },
+  {
+    match: /dwarf gourami|lalius/i,
+    template: 'community-standard',
+    content: {
+      basicInfo: {
+        scientificName: 'Trichogaster lalius',
+        commonNames: ['Dwarf Gourami'],
+        category: 'Gouramis',
+        family: 'Osphronemidae',
+        origin: 'Slow-moving, densely vegetated waters of India, Bangladesh and Pakistan',
+        waterType: 'Freshwater'
+      },
+      careRequirements: {
+        minTankSize: '15 gallons (57 litres)',
+        temperatureRange: '77-82°F (25-28°C)',
+        phRange: '6.0-7.5',
+        maxSize: '3.5 inches (9 cm)',
+        diet: 'Omnivore: flakes and small pellets with frozen bloodworm and daphnia',
+        careLevel: 'Beginner',
+        temperament: 'Peaceful',
+        socialNeeds: 'Keep one male per tank, optionally with females; males fight each other',
+        lifespan: '4-6 years'
+      },
+      compatibility: {
+        compatibleWith: ['Harlequin Rasbora', 'Panda Corydoras', 'Neon Tetra', 'Kuhli Loach'],
+        avoidWith: ['Tiger Barb', 'Other male gouramis', 'Betta', 'Red Zebra Cichlid'],
+        tankMateCategories: ['Peaceful community fish', 'Bottom dwellers'],
+        similarSpecies: ['Honey Gourami', 'Pearl Gourami', 'Sparkling Gourami']
+      },
+      aiContext: {
+        whyPopular: 'Males show iridescent blue and red stripes, and the species is small and calm enough for most community tanks.',
+        keySellingPoints: ['Vivid males', 'Calm temperament', 'Breathes air from the surface'],
+        commonQuestions: [
+          { question: 'Can I keep two male dwarf gouramis?', answer: 'Not in most home tanks. Males are territorial with each other; keep one male per tank.' },
+          { question: 'Why does my gourami go to the surface?', answer: 'It is a labyrinth fish and gulps air normally. Leave a gap under the lid so the air above the water stays warm.' },
+          { question: 'Do they need plants?', answer: 'Floating and tall plants help them feel secure and give males somewhere to build bubble nests.' }
+        ],
+        alternativeNames: ['Colisa lalia']
+      },
+      breeding: {
+        breedingType: 'Bubble nester',
+        breedingDifficulty: 'Moderate',
+        breedingNotes: 'The male builds a bubble nest among floating plants and guards the eggs; remove the female after spawning. Males are brightly striped, females silvery.'
+      }
+    }
+  },
+  {
+    match: /pea puffer|dwarf puffer|travancoricus/i,
+    template: 'specialty-care',
+    content: {
+      basicInfo: {
+        scientificName: 'Carinotetraodon travancoricus',
+        commonNames: ['Pea Puffer', 'Dwarf Pufferfish', 'Malabar Puffer'],
+        category: 'Specialty',
+        family: 'Tetraodontidae',
+        origin: 'Rivers and backwaters of Kerala and Karnataka, south-west India',
+        waterType: 'Freshwater'
+      },
+      careRequirements: {
+        minTankSize: '10 gallons (38 litres) for a single fish',
+        temperatureRange: '75-82°F (24-28°C)',
+        phRange: '7.0-8.0',
+        maxSize: '1 inch (2.5 cm)',
+        diet: 'Carnivore: refuses flake; feed frozen bloodworm and live snails to wear down the beak',
+        careLevel: 'Advanced',
+        temperament: 'Semi-aggressive',
+        socialNeeds: 'Best in a species-only, heavily planted tank with broken sight lines',
+        lifespan: '4-5 years'
+      },
+      compatibility: {
+        compatibleWith: ['Species-only tank recommended', 'Otocinclus in large tanks', 'Kuhli Loach in large tanks'],
+        avoidWith: ['Shrimp', 'Pet snails', 'Long-finned fish', 'Slow-moving fish'],
+        tankMateCategories: ['Species-only'],
+        similarSpecies: ['Red-tailed Dwarf Puffer', 'Amazon Puffer', 'Figure Eight Puffer']
+      },
+      aiContext: {
+        whyPopular: 'The smallest freshwater puffer is full of character, with independently moving eyes and curious hunting behaviour.',
+        keySellingPoints: ['Tiny size', 'Big personality', 'Truly freshwater puffer'],
+        commonQuestions: [
+          { question: 'Do pea puffers need brackish water?', answer: 'No. They are a true freshwater species and should be kept without salt.' },
+          { question: 'What do pea puffers eat?', answer: 'Live and frozen foods only, with small snails to keep their beak worn down. They rarely accept dry food.' },
+          { question: 'Can they live in a community tank?', answer: 'Rarely. They nip fins and eat shrimp and snails, so a species-only tank is best.' }
+        ],
+        alternativeNames: ['Malabar Pufferfish', 'Indian Dwarf Puffer']
+      },
+      breeding: {
+        breedingType: 'Egg scatterer',
+        breedingDifficulty: 'Moderate',
+        breedingNotes: 'Spawns among fine-leaved plants or moss; parents eat eggs, so move them to raise fry on infusoria. Males have a dark belly line and wrinkles behind the eyes.'
+      }
+    }
+  }
+];
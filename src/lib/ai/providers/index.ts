@@ -0,0 +1,47 @@
+import { LLMProvider, LLMProviderName } from './types';
+import { OpenAIProvider, ResponseFormatSupport } from './openai';
+import { MockProvider } from './mock';
+
+export type { ChatCompletion, ChatMessage, CompletionRequest, LLMProvider, LLMProviderName, TokenUsage } from './types';
+export { OpenAIAPIError, OpenAIConnectionError, OpenAIProvider } from './openai';
+export { MockProvider } from './mock';
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'openai-compatible', 'mock'];
+
+/**
+ * Build a provider by name, falling back to LLM_PROVIDER and then OpenAI.
+ *
+ * openai-compatible reads LLM_BASE_URL, LLM_API_KEY (optional), LLM_MODEL
+ * and LLM_RESPONSE_FORMAT (json_schema, json_object or none). Both OpenAI
+ * providers time requests out after LLM_TIMEOUT_MS (default 60 seconds).
+ */
+export function createProvider(name?: LLMProviderName): LLMProvider {
+  const providerName = name || (process.env.LLM_PROVIDER as LLMProviderName | undefined) || 'openai';
+
+  switch (providerName) {
+    case 'mock':
+      return new MockProvider();
+
+    case 'openai-compatible': {
+      const baseUrl = process.env.LLM_BASE_URL;
+      if (!baseUrl) {
+        throw new Error('LLM_BASE_URL is required for the openai-compatible provider');
+      }
+
+      return new OpenAIProvider({
+        name: 'openai-compatible',
+        baseUrl,
+        apiKey: process.env.LLM_API_KEY || '',
+        defaultModel: process.env.LLM_MODEL,
+        responseFormat: (process.env.LLM_RESPONSE_FORMAT as ResponseFormatSupport | undefined) || 'json_object',
+        requireApiKey: false
+      });
+    }
+
+    case 'openai':
+      return new OpenAIProvider();
+
+    default:
+      throw new Error(`Unknown LLM provider: ${providerName}`);
+  }
+}
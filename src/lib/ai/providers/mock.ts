@@ -0,0 +1,71 @@
+import { ChatCompletion, CompletionRequest, LLMProvider, TokenUsage } from './types';
+import { SPECIES_FIXTURES, SpeciesFixture } from './fixtures';
+
+const STREAM_CHUNK_SIZE = 64;
+
+/**
+ * Offline provider returning fixture content. The same product and config
+ * always produce the same output, so it suits development and testing
+ * without an API key or network.
+ */
+export class MockProvider implements LLMProvider {
+  name = 'mock' as const;
+  defaultModel = 'mock-fixtures';
+
+  async complete(request: CompletionRequest): Promise<ChatCompletion> {
+    request.signal?.throwIfAborted();
+
+    const generated = this.buildContent(request);
+    const section = request.context?.section;
+    const content = JSON.stringify(section ? { [section]: (generated as Record<string, unknown>)[section] } : generated);
+    if (request.onDelta) {
+      for (let offset = 0; offset < content.length; offset += STREAM_CHUNK_SIZE) {
+        request.onDelta(content.slice(offset, offset + STREAM_CHUNK_SIZE));
+      }
+    }
+
+    return {
+      content,
+      finishReason: 'stop',
+      usage: this.estimateUsage(request, content)
+    };
+  }
+
+  // Roughly four characters per token, close enough to exercise usage tracking
+  private estimateUsage(request: CompletionRequest, content: string): TokenUsage {
+    const promptChars = request.messages.reduce((total, message) => total + message.content.length, 0);
+    const promptTokens = Math.ceil(promptChars / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  private buildContent(request: CompletionRequest) {
+    // Translations come back marked with the locale rather than translated
+    const translation = request.context?.translation;
+    if (translation) {
+      return Object.fromEntries(
+        Object.entries(translation.segments).map(([key, text]) => [key, `[${translation.locale}] ${text}`])
+      );
+    }
+
+    const product = request.context?.product;
+    const templateType = request.context?.config?.templateType || 'community-standard';
+
+    const speciesFixture = product && SPECIES_FIXTURES.find(fixture => fixture.match.test(product.name));
+    if (speciesFixture) return speciesFixture.content;
+
+    // No fixture for this species: stand in with the template's fixture under the product's name
+    const templateFixture: SpeciesFixture = SPECIES_FIXTURES.find(fixture => fixture.template === templateType)
+      || SPECIES_FIXTURES.find(fixture => fixture.template === 'community-standard')!;
+    if (!product) return templateFixture.content;
+
+    return {
+      ...templateFixture.content,
+      basicInfo: {
+        ...templateFixture.content.basicInfo,
+        commonNames: [product.name]
+      }
+    };
+  }
+}
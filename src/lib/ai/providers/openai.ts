@@ -0,0 +1,237 @@
+import OpenAI from 'openai';
+import type {
+  ChatCompletionCreateParamsNonStreaming,
+  ChatCompletionCreateParamsStreaming,
+  ChatCompletionCreateParams
+} from 'openai/resources/chat/completions';
+import type { CompletionUsage } from 'openai/resources/completions';
+import { ChatCompletion, CompletionRequest, LLMProvider, LLMProviderName, TokenUsage } from './types';
+
+// Non-2xx response from the OpenAI API, with any Retry-After hint it sent
+export class OpenAIAPIError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'OpenAIAPIError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The request never got a response: connection refused, reset or timed out
+export class OpenAIConnectionError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'OpenAIConnectionError';
+  }
+}
+
+// How a backend can be asked for JSON output
+export type ResponseFormatSupport = 'json_schema' | 'json_object' | 'none';
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+interface OpenAIProviderOptions {
+  name?: LLMProviderName;
+  apiKey?: string;
+  baseUrl?: string;
+  defaultModel?: string;
+  responseFormat?: ResponseFormatSupport; // Overrides the per-model default
+  requireApiKey?: boolean;
+  timeoutMs?: number; // Per request; defaults to LLM_TIMEOUT_MS, then 60 seconds
+}
+
+/**
+ * Chat completions through the OpenAI SDK. Also serves any server that
+ * implements the same API (vLLM, llama.cpp, Ollama, LM Studio) via `baseUrl`.
+ */
+export class OpenAIProvider implements LLMProvider {
+  name: LLMProviderName;
+  defaultModel?: string;
+  private apiKey: string;
+  private baseUrl: string;
+  private responseFormat?: ResponseFormatSupport;
+  private requireApiKey: boolean;
+  private timeoutMs: number;
+  private client: OpenAI | null = null;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.name = options.name || 'openai';
+    this.apiKey = options.apiKey ?? process.env.OPENAI_API_KEY ?? '';
+    this.baseUrl = (options.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.defaultModel = options.defaultModel;
+    this.responseFormat = options.responseFormat;
+    this.requireApiKey = options.requireApiKey ?? true;
+    this.timeoutMs = options.timeoutMs ?? (Number(process.env.LLM_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS);
+  }
+
+  async complete(request: CompletionRequest): Promise<ChatCompletion> {
+    const client = this.getClient();
+    const params: ChatCompletionCreateParams = {
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens,
+      ...this.buildResponseFormat(request)
+    };
+
+    try {
+      return request.onDelta
+        ? await this.stream(client, { ...params, stream: true }, request)
+        : await this.create(client, { ...params, stream: false }, request);
+    } catch (error) {
+      throw this.translateError(error, request);
+    }
+  }
+
+  private async create(
+    client: OpenAI,
+    params: ChatCompletionCreateParamsNonStreaming,
+    request: CompletionRequest
+  ): Promise<ChatCompletion> {
+    const response = await client.chat.completions.create(params, { signal: request.signal });
+    const choice = response.choices[0];
+
+    return {
+      content: choice?.message.content || '',
+      finishReason: choice?.finish_reason ?? null,
+      refusal: choice?.message.refusal || undefined,
+      usage: this.toTokenUsage(response.usage)
+    };
+  }
+
+  private async stream(
+    client: OpenAI,
+    params: ChatCompletionCreateParamsStreaming,
+    request: CompletionRequest
+  ): Promise<ChatCompletion> {
+    const stream = await client.chat.completions.create(
+      { ...params, stream_options: { include_usage: true } },
+      { signal: request.signal }
+    );
+
+    let content = '';
+    let refusal = '';
+    let finishReason: string | null = null;
+    let usage: TokenUsage | undefined;
+
+    for await (const chunk of stream) {
+      // With include_usage the final chunk has no choices, only the usage block
+      if (chunk.usage) usage = this.toTokenUsage(chunk.usage);
+
+      const choice = chunk.choices[0];
+      if (!choice) continue;
+
+      if (choice.delta.content) {
+        content += choice.delta.content;
+        request.onDelta!(choice.delta.content);
+      }
+      if (choice.delta.refusal) refusal += choice.delta.refusal;
+      if (choice.finish_reason) finishReason = choice.finish_reason;
+    }
+
+    return { content, finishReason, refusal: refusal || undefined, usage };
+  }
+
+  private getClient(): OpenAI {
+    if (this.requireApiKey && !this.apiKey) {
+      throw new Error('OpenAI API key is required for content generation');
+    }
+
+    if (!this.client) {
+      this.client = new OpenAI({
+        // The SDK insists on a key; local OpenAI-compatible servers ignore it
+        apiKey: this.apiKey || 'unused',
+        baseURL: this.baseUrl,
+        timeout: this.timeoutMs,
+        // Retries belong to the job pipeline, which knows each error type's policy
+        maxRetries: 0
+      });
+    }
+    return this.client;
+  }
+
+  private translateError(error: unknown, request: CompletionRequest): unknown {
+    // Surface a cancel as the caller's own abort reason
+    if (error instanceof OpenAI.APIUserAbortError) {
+      return request.signal?.reason ?? error;
+    }
+
+    if (error instanceof OpenAI.APIConnectionTimeoutError) {
+      return new OpenAIConnectionError(`LLM request timed out after ${this.timeoutMs}ms`, { cause: error });
+    }
+
+    if (error instanceof OpenAI.APIConnectionError) {
+      return new OpenAIConnectionError(`LLM connection failed: ${error.message}`, { cause: error });
+    }
+
+    if (error instanceof OpenAI.APIError && error.status !== undefined) {
+      return new OpenAIAPIError(
+        `${this.name === 'openai' ? 'OpenAI' : 'LLM'} API error: ${error.message}`,
+        error.status,
+        error.headers ? this.parseRetryAfter(error.headers) : undefined
+      );
+    }
+
+    return error;
+  }
+
+  private toTokenUsage(usage: CompletionUsage | null | undefined): TokenUsage | undefined {
+    if (!usage) return undefined;
+
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens
+    };
+  }
+
+  private buildResponseFormat(request: CompletionRequest): Pick<ChatCompletionCreateParams, 'response_format'> {
+    if (!request.schema) return {};
+
+    // Structured outputs need gpt-4o; gpt-4-turbo only has JSON mode; gpt-4 has neither
+    const support = this.responseFormat ?? (
+      request.model.startsWith('gpt-4o') ? 'json_schema'
+        : request.model === 'gpt-4-turbo' ? 'json_object'
+        : 'none'
+    );
+
+    if (support === 'json_schema') {
+      return {
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: request.schema.name,
+            strict: true,
+            schema: request.schema.schema as unknown as Record<string, unknown>
+          }
+        }
+      };
+    }
+
+    if (support === 'json_object') {
+      return { response_format: { type: 'json_object' } };
+    }
+
+    return {};
+  }
+
+  private parseRetryAfter(headers: Headers): number | undefined {
+    const retryAfterMs = headers.get('retry-after-ms');
+    if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+      return Number(retryAfterMs);
+    }
+
+    // Retry-After is either delay-seconds or an HTTP date
+    const retryAfter = headers.get('retry-after');
+    if (!retryAfter) return undefined;
+
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) return seconds * 1000;
+
+    const date = Date.parse(retryAfter);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+}
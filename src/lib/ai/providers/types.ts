@@ -0,0 +1,44 @@
+import { ContentConfig, ContentSection, LLMProviderName, LocaleCode, Product, TokenUsage } from '@/types/content';
+import { JSONSchema } from '../schema';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  model: string;
+  maxTokens: number;
+  temperature?: number;
+  schema?: { name: string; schema: JSONSchema }; // Constrain output to this JSON schema where supported
+  signal?: AbortSignal;
+  // Stream the completion, passing each piece of text as it arrives
+  onDelta?: (text: string) => void;
+  // What the completion is for; real providers ignore it, the mock provider picks its fixture from it
+  context?: {
+    product?: Product;
+    config?: ContentConfig;
+    section?: ContentSection; // Only this section is being regenerated
+    translation?: { locale: LocaleCode; segments: Record<string, string> };
+  };
+}
+
+export interface ChatCompletion {
+  content: string;
+  finishReason: string | null;
+  refusal?: string;
+  usage?: TokenUsage; // Absent when the backend doesn't report it
+}
+
+export type { LLMProviderName, TokenUsage };
+
+/**
+ * A chat-completion backend for content generation
+ */
+export interface LLMProvider {
+  name: LLMProviderName;
+  // Model to use in place of ContentConfig.aiModel, for backends with their own model names
+  defaultModel?: string;
+  complete(request: CompletionRequest): Promise<ChatCompletion>;
+}
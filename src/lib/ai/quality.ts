@@ -0,0 +1,95 @@
+import { AISearchContent, ContentConfig, FishFamily, Product, QualitySignals } from '@/types/content';
+import { contentValidator } from './validator';
+
+// Scientific families we expect for each catalog family; unlisted families aren't cross-checked
+const EXPECTED_TAXA: Partial<Record<FishFamily, string[]>> = {
+  cichlids: ['Cichlidae'],
+  tetras: ['Characidae', 'Alestidae', 'Lebiasinidae', 'Gasteropelecidae', 'Crenuchidae', 'Acestrorhynchidae'],
+  livebearers: ['Poeciliidae', 'Goodeidae', 'Anablepidae'],
+  catfish: [
+    'Callichthyidae', 'Loricariidae', 'Mochokidae', 'Pimelodidae', 'Siluridae', 'Bagridae',
+    'Doradidae', 'Auchenipteridae', 'Aspredinidae', 'Clariidae', 'Heptapteridae', 'Schilbeidae'
+  ],
+  barbs: ['Cyprinidae'],
+  danios: ['Danionidae', 'Cyprinidae'],
+  gouramis: ['Osphronemidae', 'Helostomatidae', 'Anabantidae'],
+  loaches: ['Cobitidae', 'Botiidae', 'Nemacheilidae', 'Balitoridae', 'Gastromyzontidae'],
+  rainbowfish: ['Melanotaeniidae', 'Pseudomugilidae', 'Bedotiidae', 'Telmatherinidae']
+};
+
+const RETRY_PENALTY = 5;
+const DISAGREEMENT_PENALTY = 10;
+
+/**
+ * Validate content and derive its quality score and confidence from the
+ * validation result, how many generations it took and whether it agrees
+ * with what we already know about the product. Writes the results into
+ * the content's metadata and returns it.
+ */
+export function assessContent(
+  content: AISearchContent,
+  product: Product,
+  config: ContentConfig,
+  attempts = 1
+): AISearchContent {
+  const validation = contentValidator.validate(content, config);
+
+  const signals: QualitySignals = {
+    validationScore: validation.score,
+    schemaConformant: !content.metadata.repaired,
+    attempts,
+    disagreements: findDisagreements(content, product, config)
+  };
+
+  const qualityScore = Math.max(0, Math.min(100, validation.score
+    - (attempts - 1) * RETRY_PENALTY
+    - signals.disagreements.length * DISAGREEMENT_PENALTY));
+
+  const hasCriticalErrors = validation.errors.some(error => error.severity === 'critical');
+  const confidence = qualityScore >= 85 && signals.schemaConformant && !hasCriticalErrors
+    ? 'high'
+    : qualityScore >= 65 ? 'medium' : 'low';
+
+  content.metadata = {
+    ...content.metadata,
+    confidence,
+    validation,
+    qualityScore,
+    qualitySignals: signals
+  };
+
+  return content;
+}
+
+function findDisagreements(content: AISearchContent, product: Product, config: ContentConfig): string[] {
+  const disagreements: string[] = [];
+
+  const taxon = content.basicInfo?.family?.trim();
+  const expectedTaxa = EXPECTED_TAXA[config.family];
+  if (taxon && expectedTaxa && !expectedTaxa.some(expected => expected.toLowerCase() === taxon.toLowerCase())) {
+    disagreements.push(`Family "${taxon}" is not expected for ${config.family}`);
+  }
+
+  const temperament = content.careRequirements?.temperament || '';
+  const isAggressive = /(?<!semi-)aggressive/i.test(temperament);
+  if (config.behavior === 'territorial-aggressive' && /peaceful/i.test(temperament) && !isAggressive) {
+    disagreements.push(`Temperament "${temperament}" for a fish classified as territorial-aggressive`);
+  }
+  if ((config.behavior === 'peaceful-schooling' || config.behavior === 'community-friendly') && isAggressive) {
+    disagreements.push(`Temperament "${temperament}" for a fish classified as ${config.behavior}`);
+  }
+
+  // Catalog names sometimes carry the scientific name, e.g. "Neon Tetra (Paracheirodon innesi)"
+  const listedGenus = product.name.match(/\(([A-Z][a-z]+) [a-z]+\)/)?.[1];
+  const generatedGenus = content.basicInfo?.scientificName?.trim().split(/\s+/)[0];
+  if (listedGenus && generatedGenus && listedGenus !== generatedGenus) {
+    disagreements.push(`Scientific name "${content.basicInfo.scientificName}" disagrees with product name "${product.name}"`);
+  }
+
+  if (config.templateType === 'livebearer-breeding' && content.breeding?.breedingType &&
+      !/live/i.test(content.breeding.breedingType)) {
+    disagreements.push(`Breeding type "${content.breeding.breedingType}" for a livebearer`);
+  }
+
+  return disagreements;
+}
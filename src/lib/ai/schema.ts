@@ -0,0 +1,131 @@
+import { ContentSection } from '@/types/content';
+
+/**
+ * JSON schema for the sections of AISearchContent the model generates.
+ * Written to the structured outputs subset: every property is required
+ * and no additional properties are allowed.
+ */
+
+export interface JSONSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  enum?: string[];
+}
+
+function object(properties: Record<string, JSONSchema>): JSONSchema {
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties),
+    additionalProperties: false
+  };
+}
+
+const text = (description?: string): JSONSchema => ({ type: 'string', ...(description && { description }) });
+const textList = (description?: string): JSONSchema => ({ type: 'array', items: text(), ...(description && { description }) });
+
+export const AI_SEARCH_CONTENT_SCHEMA: JSONSchema = object({
+  basicInfo: object({
+    scientificName: text('Current valid binomial name'),
+    commonNames: textList('Primary common name first'),
+    category: text('Shop category, e.g. Tetras or Dwarf Cichlids'),
+    family: text('Scientific family, e.g. Cichlidae'),
+    origin: text('Natural habitat and geographic origin'),
+    waterType: text('Freshwater, Brackish or Saltwater')
+  }),
+  careRequirements: object({
+    minTankSize: text('Minimum tank volume, in the units the prompt asks for'),
+    temperatureRange: text('Temperature range, in the units the prompt asks for'),
+    phRange: text('e.g. "6.5-7.5"'),
+    maxSize: text('Adult length, in the units the prompt asks for'),
+    diet: text(),
+    careLevel: { type: 'string', enum: ['Beginner', 'Intermediate', 'Advanced'] },
+    temperament: { type: 'string', enum: ['Peaceful', 'Semi-aggressive', 'Aggressive'] },
+    socialNeeds: text(),
+    lifespan: text('e.g. "5-8 years"')
+  }),
+  compatibility: object({
+    compatibleWith: textList('Specific species'),
+    avoidWith: textList('Specific species or groups'),
+    tankMateCategories: textList(),
+    similarSpecies: textList('Species with similar care that buyers also consider')
+  }),
+  aiContext: object({
+    whyPopular: text(),
+    keySellingPoints: textList(),
+    commonQuestions: {
+      type: 'array',
+      items: object({
+        question: text(),
+        answer: text()
+      })
+    },
+    alternativeNames: textList()
+  }),
+  breeding: object({
+    breedingType: text('e.g. Egg scatterer, Mouthbrooder, Livebearer'),
+    breedingDifficulty: { type: 'string', enum: ['Easy', 'Moderate', 'Difficult'] },
+    breedingNotes: text('Including how to tell males from females')
+  })
+});
+
+export const GENERATED_SECTIONS: ContentSection[] = ['basicInfo', 'careRequirements', 'compatibility', 'aiContext', 'breeding'];
+
+// Schema for a response holding just one section, e.g. { "aiContext": { ... } }
+export function sectionSchema(section: ContentSection): JSONSchema {
+  return object({ [section]: AI_SEARCH_CONTENT_SCHEMA.properties![section] });
+}
+
+/**
+ * Check a parsed value against a schema, returning one message per problem
+ */
+export function validateSchema(value: unknown, schema: JSONSchema, path = '$'): string[] {
+  switch (schema.type) {
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return [`${path} should be an object`];
+      }
+
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+
+      for (const key of schema.required || []) {
+        if (!(key in record)) errors.push(`${path}.${key} is missing`);
+      }
+      // Extra properties are harmless to us, so only declared ones are checked
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (key in record) {
+          errors.push(...validateSchema(record[key], propertySchema, `${path}.${key}`));
+        }
+      }
+      return errors;
+    }
+
+    case 'array':
+      if (!Array.isArray(value)) return [`${path} should be an array`];
+      return schema.items
+        ? value.flatMap((item, index) => validateSchema(item, schema.items!, `${path}[${index}]`))
+        : [];
+
+    case 'string':
+      if (typeof value !== 'string') return [`${path} should be a string`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path} should be one of ${schema.enum.join(', ')}`];
+      }
+      return [];
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || (schema.type === 'integer' && !Number.isInteger(value))) {
+        return [`${path} should be a ${schema.type}`];
+      }
+      return [];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} should be a boolean`];
+  }
+}
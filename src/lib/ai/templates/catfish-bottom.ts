@@ -0,0 +1,41 @@
+import { TemplateConfig } from '@/types/content';
+import { extendValidation } from './shared';
+
+export const catfishBottomTemplate: TemplateConfig = {
+  type: 'catfish-bottom',
+  prompts: {
+    basicInfo: 'Give the valid scientific name; for plecos include the L-number in alternativeNames, and for corydoras note any C-number.',
+    careRequirements: 'Cover substrate (soft sand for corydoras to protect their barbels), driftwood for plecos that rasp wood, sinking foods, nocturnal feeding and oxygenation. Corydoras must be kept in groups of six or more. Do not present them as tank cleaners that live on leftovers.',
+    compatibility: 'Suggest peaceful mid- and top-water community fish. Warn against fish that harass bottom dwellers, and for larger catfish, against fish small enough to be eaten at night.',
+    breeding: 'Describe spawning method (T-position egg laying, cave spawning males guarding eggs) and triggers such as cooler water changes.',
+    aiContext: 'Focus questions on what and when to feed, whether they clean algae or leftovers, substrate choice and why they may be hiding.'
+  },
+  validation: extendValidation({
+    required: ['careRequirements.socialNeeds', 'careRequirements.diet']
+  }),
+  examples: {
+    scientificName: 'Corydoras panda',
+    commonName: 'Panda Corydoras',
+    sampleOutput: {
+      basicInfo: {
+        scientificName: 'Corydoras panda',
+        commonNames: ['Panda Corydoras', 'Panda Cory'],
+        category: 'Catfish',
+        family: 'Callichthyidae',
+        origin: 'Upper Amazon tributaries of the Ucayali system, Peru',
+        waterType: 'Freshwater'
+      },
+      careRequirements: {
+        minTankSize: '20 gallons (75 litres) for a group of six',
+        temperatureRange: '68-77°F (20-25°C)',
+        phRange: '6.0-7.5',
+        maxSize: '2 inches (5 cm)',
+        diet: 'Omnivore: sinking wafers and granules plus frozen bloodworm, fed after lights out as well as during the day',
+        careLevel: 'Beginner',
+        temperament: 'Peaceful',
+        socialNeeds: 'Keep in a group of at least six of the same species on soft sand',
+        lifespan: '10 years'
+      }
+    }
+  }
+};
@@ -0,0 +1,47 @@
+import { TemplateConfig } from '@/types/content';
+import { extendValidation } from './shared';
+
+export const cichlidAggressiveTemplate: TemplateConfig = {
+  type: 'cichlid-aggressive',
+  prompts: {
+    basicInfo: 'Give the current valid scientific name (note older synonyms such as Pseudotropheus/Metriaclima/Maylandia in alternativeNames) and the specific lake, river system or collection point it comes from.',
+    careRequirements: 'Tank size must reflect territorial spacing, not just adult length: state the minimum for a species group, not a single fish. Rift lake species need hard, alkaline water (pH 7.8-8.6); Central American species tolerate neutral to moderately hard water. Describe aggression towards conspecifics and other fish honestly.',
+    compatibility: 'Only list tank mates of similar temperament and size from the same biotope where possible. Explicitly warn against peaceful community fish, long-finned fish and mixing Malawi mbuna with haps or Central Americans. Mention stocking strategies such as one male to several females or deliberate overstocking with heavy filtration.',
+    breeding: 'Describe the breeding strategy (maternal mouthbrooder, substrate spawner, cave spawner), how aggressive the pair or male becomes while breeding, and whether fry need to be removed.',
+    aiContext: 'Focus questions on aggression management, rockwork and territory breaking, stocking ratios and whether the fish can be kept with other cichlids.'
+  },
+  validation: extendValidation({
+    required: ['careRequirements.socialNeeds', 'breeding.breedingNotes']
+  }),
+  examples: {
+    scientificName: 'Maylandia estherae',
+    commonName: 'Red Zebra Cichlid',
+    sampleOutput: {
+      basicInfo: {
+        scientificName: 'Maylandia estherae',
+        commonNames: ['Red Zebra Cichlid', 'Estherae Zebra'],
+        category: 'Lake Malawi Cichlids',
+        family: 'Cichlidae',
+        origin: 'Rocky shorelines of eastern Lake Malawi, Mozambique',
+        waterType: 'Freshwater'
+      },
+      careRequirements: {
+        minTankSize: '55 gallons (208 litres) for a group of one male and three or more females',
+        temperatureRange: '76-82°F (24-28°C)',
+        phRange: '7.8-8.6',
+        maxSize: '5 inches (13 cm)',
+        diet: 'Herbivore-leaning omnivore: spirulina-based flakes and pellets, limited protein to avoid Malawi bloat',
+        careLevel: 'Intermediate',
+        temperament: 'Aggressive',
+        socialNeeds: 'Keep one male with several females; males are highly territorial over rock caves',
+        lifespan: '8-10 years'
+      },
+      compatibility: {
+        compatibleWith: ['Labidochromis caeruleus', 'Pseudotropheus saulosi', 'Synodontis multipunctatus'],
+        avoidWith: ['Neon Tetra', 'Fancy Guppy', 'Angelfish', 'Other red/orange mbuna'],
+        tankMateCategories: ['Lake Malawi mbuna', 'Robust African catfish'],
+        similarSpecies: ['Cobalt Blue Zebra', 'Pseudotropheus demasoni']
+      }
+    }
+  }
+};
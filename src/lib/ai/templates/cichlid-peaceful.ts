@@ -0,0 +1,41 @@
+import { TemplateConfig } from '@/types/content';
+import { extendValidation } from './shared';
+
+export const cichlidPeacefulTemplate: TemplateConfig = {
+  type: 'cichlid-peaceful',
+  prompts: {
+    basicInfo: 'Give the valid scientific name and the river basin it comes from; note line-bred colour forms (e.g. electric blue, gold, balloon) and that they share the wild species\' care.',
+    careRequirements: 'Most dwarf and peaceful cichlids want soft, slightly acidic, very clean water and warmer temperatures; be specific about nitrate sensitivity and the need for stable, mature aquariums.',
+    compatibility: 'Suggest calm community fish that will not outcompete them for food, such as small tetras, pencilfish and corydoras. Warn against fin nippers, boisterous feeders and larger cichlids. Note that pairs become protective when spawning.',
+    breeding: 'Describe pair formation, preferred spawning site (flat stones, caves, leaves), parental care and typical egg counts.',
+    aiContext: 'Focus questions on water parameters, whether they suit a community tank, pairing males and females and why they might be hiding or losing colour.'
+  },
+  validation: extendValidation({
+    required: ['breeding.breedingNotes']
+  }),
+  examples: {
+    scientificName: 'Mikrogeophagus ramirezi',
+    commonName: 'German Blue Ram',
+    sampleOutput: {
+      basicInfo: {
+        scientificName: 'Mikrogeophagus ramirezi',
+        commonNames: ['German Blue Ram', 'Ram Cichlid', 'Butterfly Cichlid'],
+        category: 'Dwarf Cichlids',
+        family: 'Cichlidae',
+        origin: 'Orinoco River basin, Venezuela and Colombia',
+        waterType: 'Freshwater'
+      },
+      careRequirements: {
+        minTankSize: '20 gallons (75 litres) for a pair',
+        temperatureRange: '80-86°F (27-30°C)',
+        phRange: '5.0-7.0',
+        maxSize: '2.5 inches (6 cm)',
+        diet: 'Omnivore: quality micro pellets plus frozen bloodworm, brine shrimp and daphnia',
+        careLevel: 'Intermediate',
+        temperament: 'Peaceful',
+        socialNeeds: 'Best kept as a bonded pair; several pairs need a larger tank with visual barriers',
+        lifespan: '2-4 years'
+      }
+    }
+  }
+};
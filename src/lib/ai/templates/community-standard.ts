@@ -0,0 +1,39 @@
+import { TemplateConfig } from '@/types/content';
+import { extendValidation } from './shared';
+
+export const communityStandardTemplate: TemplateConfig = {
+  type: 'community-standard',
+  prompts: {
+    basicInfo: 'Give the valid scientific name, family and native range.',
+    careRequirements: 'Give practical care parameters for a typical community aquarium, including group size for shoaling species.',
+    compatibility: 'List specific species that share its water parameters and temperament, and species to avoid with a reason implied by the choice.',
+    breeding: 'Summarise breeding method, difficulty and what is needed to raise fry in a home aquarium.',
+    aiContext: 'Answer the questions customers most often ask before buying this fish.'
+  },
+  validation: extendValidation(),
+  examples: {
+    scientificName: 'Trichogaster lalius',
+    commonName: 'Dwarf Gourami',
+    sampleOutput: {
+      basicInfo: {
+        scientificName: 'Trichogaster lalius',
+        commonNames: ['Dwarf Gourami'],
+        category: 'Gouramis',
+        family: 'Osphronemidae',
+        origin: 'Slow-moving, densely vegetated waters of India, Bangladesh and Pakistan',
+        waterType: 'Freshwater'
+      },
+      careRequirements: {
+        minTankSize: '15 gallons (57 litres)',
+        temperatureRange: '77-82°F (25-28°C)',
+        phRange: '6.0-7.5',
+        maxSize: '3.5 inches (9 cm)',
+        diet: 'Omnivore: flakes and small pellets with frozen bloodworm and daphnia',
+        careLevel: 'Beginner',
+        temperament: 'Peaceful',
+        socialNeeds: 'Keep one male per tank, optionally with females; males fight each other',
+        lifespan: '4-6 years'
+      }
+    }
+  }
+};
@@ -0,0 +1,44 @@
+import { TemplateConfig, TemplateType } from '@/types/content';
+import { cichlidAggressiveTemplate } from './cichlid-aggressive';
+import { cichlidPeacefulTemplate } from './cichlid-peaceful';
+import { tetraSchoolingTemplate } from './tetra-schooling';
+import { livebearerBreedingTemplate } from './livebearer-breeding';
+import { catfishBottomTemplate } from './catfish-bottom';
+import { communityStandardTemplate } from './community-standard';
+import { specialtyCareTemplate } from './specialty-care';
+
+export const TEMPLATE_REGISTRY: Record<TemplateType, TemplateConfig> = {
+  'cichlid-aggressive': cichlidAggressiveTemplate,
+  'cichlid-peaceful': cichlidPeacefulTemplate,
+  'tetra-schooling': tetraSchoolingTemplate,
+  'livebearer-breeding': livebearerBreedingTemplate,
+  'catfish-bottom': catfishBottomTemplate,
+  'community-standard': communityStandardTemplate,
+  'specialty-care': specialtyCareTemplate
+};
+
+export function getTemplate(type: TemplateType): TemplateConfig {
+  return TEMPLATE_REGISTRY[type] || communityStandardTemplate;
+}
+
+/**
+ * Read a dotted field path such as 'careRequirements.minTankSize'
+ */
+export function getFieldValue(content: unknown, fieldPath: string): unknown {
+  return fieldPath.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    content
+  );
+}
+
+/**
+ * Fields from `fieldPaths` that are missing, blank or empty arrays
+ */
+export function findMissingFields(content: unknown, fieldPaths: string[]): string[] {
+  return fieldPaths.filter(fieldPath => {
+    const value = getFieldValue(content, fieldPath);
+    if (Array.isArray(value)) return value.length === 0;
+    if (typeof value === 'string') return value.trim() === '';
+    return value === undefined || value === null;
+  });
+}
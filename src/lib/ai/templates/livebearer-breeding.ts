@@ -0,0 +1,36 @@
+import { TemplateConfig } from '@/types/content';
+import { extendValidation } from './shared';
+
+export const livebearerBreedingTemplate: TemplateConfig = {
+  type: 'livebearer-breeding',
+  prompts: {
+    basicInfo: 'Give the scientific name of the wild species and note when the product is a line-bred or hybrid strain (e.g. fancy guppy, balloon molly, Mickey Mouse platy).',
+    careRequirements: 'Livebearers prefer harder, alkaline water; mollies in particular benefit from higher mineral content. Mention the recommended male-to-female ratio (at least two to three females per male) to reduce harassment.',
+    compatibility: 'Suggest peaceful community fish that appreciate similar hard water. Warn against fin nippers for long-finned strains and note that adult tank mates will eat fry.',
+    breeding: 'Breeding must be detailed: livebearing method, gestation period in days, typical brood size, how to recognise a gravid female, fry protection (dense plants, breeding boxes) and how quickly populations grow.',
+    aiContext: 'Focus questions on how often they give birth, how to tell males from females, keeping fry alive and controlling population growth.'
+  },
+  validation: extendValidation({
+    required: ['breeding.breedingType', 'breeding.breedingDifficulty', 'breeding.breedingNotes'],
+    maxLengths: { 'breeding.breedingNotes': 900 }
+  }),
+  examples: {
+    scientificName: 'Poecilia reticulata',
+    commonName: 'Fancy Guppy',
+    sampleOutput: {
+      basicInfo: {
+        scientificName: 'Poecilia reticulata',
+        commonNames: ['Fancy Guppy', 'Guppy', 'Millionfish'],
+        category: 'Livebearers',
+        family: 'Poeciliidae',
+        origin: 'Line-bred form of a species native to Venezuela, Trinidad and northern Brazil',
+        waterType: 'Freshwater'
+      },
+      breeding: {
+        breedingType: 'Livebearer',
+        breedingDifficulty: 'Easy',
+        breedingNotes: 'Females give birth to 20-60 fry roughly every 28 days and can store sperm for several broods. A dark gravid spot and squared-off belly signal an imminent birth. Provide floating plants or a breeding box, as adults eat fry.'
+      }
+    }
+  }
+};
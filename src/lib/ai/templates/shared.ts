@@ -0,0 +1,49 @@
+import { TemplateConfig } from '@/types/content';
+
+// Fields every template needs before content is usable on the storefront
+export const BASE_REQUIRED_FIELDS = [
+  'basicInfo.scientificName',
+  'basicInfo.commonNames',
+  'basicInfo.family',
+  'basicInfo.origin',
+  'careRequirements.minTankSize',
+  'careRequirements.temperatureRange',
+  'careRequirements.phRange',
+  'careRequirements.maxSize',
+  'careRequirements.diet',
+  'careRequirements.temperament',
+  'compatibility.compatibleWith',
+  'compatibility.avoidWith',
+  'aiContext.whyPopular',
+  'aiContext.commonQuestions'
+];
+
+export const BASE_OPTIONAL_FIELDS = [
+  'aiContext.alternativeNames',
+  'compatibility.tankMateCategories',
+  'compatibility.similarSpecies',
+  'breeding.breedingType'
+];
+
+export const BASE_MAX_LENGTHS: Record<string, number> = {
+  'aiContext.whyPopular': 400,
+  'careRequirements.diet': 300,
+  'careRequirements.socialNeeds': 300,
+  'breeding.breedingNotes': 600
+};
+
+/**
+ * Merge a template's validation rules onto the shared baseline
+ */
+export function extendValidation(
+  rules: Partial<TemplateConfig['validation']> = {}
+): TemplateConfig['validation'] {
+  const required = [...new Set([...BASE_REQUIRED_FIELDS, ...(rules.required || [])])];
+
+  return {
+    required,
+    optional: [...new Set([...BASE_OPTIONAL_FIELDS, ...(rules.optional || [])])]
+      .filter(field => !required.includes(field)),
+    maxLengths: { ...BASE_MAX_LENGTHS, ...rules.maxLengths }
+  };
+}
@@ -0,0 +1,47 @@
+import { TemplateConfig } from '@/types/content';
+import { extendValidation } from './shared';
+
+export const specialtyCareTemplate: TemplateConfig = {
+  type: 'specialty-care',
+  prompts: {
+    basicInfo: 'Give the valid scientific name and precise native habitat, including whether it is strictly freshwater or needs brackish water at any life stage.',
+    careRequirements: 'This species has specialist needs: be explicit about anything that differs from a standard community tank (live or frozen-only diets, brackish salinity, species-only tanks, escape-proof lids, extreme water parameters) and rate care level honestly.',
+    compatibility: 'If the fish should be kept in a species-only tank, say so in compatibleWith rather than inventing tank mates. List common mistakes in avoidWith.',
+    breeding: 'State plainly if the species is rarely or never bred in home aquaria rather than speculating.',
+    aiContext: 'Focus questions on the specialist requirements a buyer must be prepared for before purchase.'
+  },
+  validation: extendValidation({
+    required: ['careRequirements.careLevel', 'careRequirements.socialNeeds']
+  }),
+  examples: {
+    scientificName: 'Carinotetraodon travancoricus',
+    commonName: 'Pea Puffer',
+    sampleOutput: {
+      basicInfo: {
+        scientificName: 'Carinotetraodon travancoricus',
+        commonNames: ['Pea Puffer', 'Dwarf Pufferfish', 'Malabar Puffer'],
+        category: 'Specialty',
+        family: 'Tetraodontidae',
+        origin: 'Rivers and backwaters of Kerala and Karnataka, south-west India',
+        waterType: 'Freshwater'
+      },
+      careRequirements: {
+        minTankSize: '10 gallons (38 litres) for a single fish, more for a group',
+        temperatureRange: '75-82°F (24-28°C)',
+        phRange: '7.0-8.0',
+        maxSize: '1 inch (2.5 cm)',
+        diet: 'Carnivore: refuses flake; feed frozen bloodworm and live snails to wear down the beak',
+        careLevel: 'Advanced',
+        temperament: 'Semi-aggressive',
+        socialNeeds: 'Best in a species-only, heavily planted tank with broken sight lines',
+        lifespan: '4-5 years'
+      },
+      compatibility: {
+        compatibleWith: ['Species-only tank recommended'],
+        avoidWith: ['Shrimp', 'Snails kept as pets', 'Long-finned fish', 'Slow-moving fish'],
+        tankMateCategories: ['Species-only'],
+        similarSpecies: ['Red-tailed Dwarf Puffer', 'Amazon Puffer']
+      }
+    }
+  }
+};
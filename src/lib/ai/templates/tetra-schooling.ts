@@ -0,0 +1,41 @@
+import { TemplateConfig } from '@/types/content';
+import { extendValidation } from './shared';
+
+export const tetraSchoolingTemplate: TemplateConfig = {
+  type: 'tetra-schooling',
+  prompts: {
+    basicInfo: 'Give the valid scientific name and native river system; distinguish commonly confused species (e.g. neon vs cardinal tetra) in alternativeNames only when they are true synonyms.',
+    careRequirements: 'State the minimum group size explicitly (never fewer than six, ideally ten or more) and size the tank for the group. Most tetras prefer soft, slightly acidic water, dim lighting and planted tanks; note where a species is more adaptable.',
+    compatibility: 'Suggest peaceful community fish of similar size. Warn against any fish large enough to eat them (including adult angelfish for the smallest species) and, for fin-nipping tetras such as serpae or black skirt, warn against long-finned tank mates.',
+    breeding: 'Describe egg scattering, the need to remove parents, soft acidic spawning water and infusoria-sized first foods.',
+    aiContext: 'Focus questions on group size, why colours fade, whether they nip fins and whether they suit a new aquarium.'
+  },
+  validation: extendValidation({
+    required: ['careRequirements.socialNeeds', 'compatibility.tankMateCategories']
+  }),
+  examples: {
+    scientificName: 'Paracheirodon innesi',
+    commonName: 'Neon Tetra',
+    sampleOutput: {
+      basicInfo: {
+        scientificName: 'Paracheirodon innesi',
+        commonNames: ['Neon Tetra'],
+        category: 'Tetras',
+        family: 'Characidae',
+        origin: 'Blackwater and clearwater streams of the upper Amazon basin, Peru and Colombia',
+        waterType: 'Freshwater'
+      },
+      careRequirements: {
+        minTankSize: '15 gallons (57 litres) for a group of ten',
+        temperatureRange: '72-79°F (22-26°C)',
+        phRange: '5.0-7.0',
+        maxSize: '1.5 inches (4 cm)',
+        diet: 'Micropredator: small flakes and micro pellets with frozen or live daphnia and baby brine shrimp',
+        careLevel: 'Beginner',
+        temperament: 'Peaceful',
+        socialNeeds: 'Shoaling fish: keep at least ten together or they become stressed and pale',
+        lifespan: '5-8 years'
+      }
+    }
+  }
+};
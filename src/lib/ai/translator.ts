@@ -0,0 +1,224 @@
+import { AISearchContent, ContentConfig, LocaleCode, TokenUsage } from '@/types/content';
+import { getLocaleProfile, LocaleProfile, localizedKeywords } from '@/lib/locale/profiles';
+import { AIResponseFormatError } from './content-generator';
+import { formatCareRequirements } from './care-parameters';
+import { JSONSchema } from './schema';
+import { ChatMessage, createProvider, LLMProvider } from './providers';
+import { addUsage, EMPTY_USAGE } from './usage';
+
+// Human-readable fields; scientific names, taxa and numbers-only fields stay as generated
+const TRANSLATABLE_FIELDS = [
+  'basicInfo.commonNames',
+  'basicInfo.category',
+  'basicInfo.origin',
+  'basicInfo.waterType',
+  'careRequirements.minTankSize',
+  'careRequirements.maxSize',
+  'careRequirements.diet',
+  'careRequirements.careLevel',
+  'careRequirements.temperament',
+  'careRequirements.socialNeeds',
+  'careRequirements.lifespan',
+  'compatibility.compatibleWith',
+  'compatibility.avoidWith',
+  'compatibility.tankMateCategories',
+  'compatibility.similarSpecies',
+  'aiContext.whyPopular',
+  'aiContext.keySellingPoints',
+  'aiContext.commonQuestions',
+  'aiContext.alternativeNames',
+  'breeding.breedingType',
+  'breeding.breedingDifficulty',
+  'breeding.breedingNotes'
+];
+
+const RELATED_PRODUCT_LISTS = ['complementaryProducts', 'similarSpecies', 'compatibleSpecies'] as const;
+
+const SYSTEM_PROMPT = 'You are a professional translator for an aquarium retailer. Always respond with valid JSON only, no additional text.';
+
+const TRANSLATION_MAX_TOKENS = 4000;
+
+type TranslationConfig = Partial<Pick<ContentConfig, 'provider' | 'aiModel'>>;
+
+/**
+ * Translates generated content into another locale without regenerating it.
+ * Only human-readable text goes to the model; any field whose numbers or
+ * scientific name don't survive translation keeps its source text.
+ */
+export class ContentTranslator {
+  private provider: LLMProvider | null;
+
+  constructor(provider?: LLMProvider) {
+    this.provider = provider || null;
+  }
+
+  async translate(
+    content: AISearchContent,
+    locale: LocaleCode,
+    config: TranslationConfig = {},
+    signal?: AbortSignal
+  ): Promise<AISearchContent> {
+    const source = getLocaleProfile(content.metadata.locale);
+    const target = getLocaleProfile(locale);
+    if (source.code === target.code) {
+      throw new Error(`Content is already in ${target.code}`);
+    }
+
+    const provider = this.provider || createProvider(config.provider);
+    const model = provider.defaultModel || config.aiModel || 'gpt-4o';
+
+    // Care strings are re-rendered in the target's units first, so only the words need translating
+    const translated: AISearchContent = structuredClone(content);
+    Object.assign(translated.careRequirements, formatCareRequirements(content.careRequirements, target.units));
+
+    const segments = this.collectSegments(translated);
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: this.buildPrompt(segments, content.basicInfo.scientificName, source, target) }
+    ];
+
+    const completion = await provider.complete({
+      messages,
+      model,
+      maxTokens: TRANSLATION_MAX_TOKENS,
+      temperature: 0.3,
+      schema: { name: 'translation', schema: this.buildSchema(segments) },
+      signal,
+      context: { translation: { locale: target.code, segments } }
+    });
+    const usage: TokenUsage = addUsage(EMPTY_USAGE, completion.usage);
+
+    if (completion.finishReason === 'length') {
+      throw new AIResponseFormatError(`Translation truncated at ${TRANSLATION_MAX_TOKENS} tokens`);
+    }
+    if (completion.refusal) {
+      throw new AIResponseFormatError(`Model refused to translate content: ${completion.refusal}`);
+    }
+
+    const translations = this.parseResponse(completion.content);
+    const untranslatedFields: string[] = [];
+
+    for (const [path, text] of Object.entries(segments)) {
+      const translation = translations[path];
+      if (typeof translation === 'string' && translation.trim() &&
+          this.preservesFacts(text, translation, content.basicInfo.scientificName)) {
+        this.setSegment(translated, path, translation);
+      } else {
+        untranslatedFields.push(path);
+      }
+    }
+
+    const { basicInfo } = translated;
+    translated.searchKeywords = [...new Set([
+      basicInfo.scientificName,
+      ...(basicInfo.commonNames || []),
+      basicInfo.family,
+      ...localizedKeywords(target, content.basicInfo.waterType)
+    ].filter(Boolean))];
+
+    translated.metadata = {
+      ...content.metadata,
+      lastUpdated: new Date().toISOString(),
+      locale: target.code,
+      translation: {
+        sourceLocale: source.code,
+        translatedAt: new Date().toISOString(),
+        sources: [provider.name === 'openai' ? `OpenAI ${model}` : `${provider.name} ${model}`],
+        untranslatedFields,
+        usage
+      }
+    };
+
+    return translated;
+  }
+
+  private buildPrompt(
+    segments: Record<string, string>,
+    scientificName: string,
+    source: LocaleProfile,
+    target: LocaleProfile
+  ): string {
+    return `Translate the values of this JSON object from ${source.language} into ${target.language} for ${target.label} aquarium shop customers.
+
+Rules:
+- Return a JSON object with exactly the same keys, with each value translated
+- Keep scientific names such as ${scientificName} exactly as written
+- Keep every number exactly as written; only the decimal separator may follow local convention
+- Use the common names fish keepers in this market use, keeping the original name where there isn't one
+- Use ${target.spelling}
+- Keep the knowledgeable, friendly tone of the original
+
+${JSON.stringify(segments, null, 2)}`;
+  }
+
+  private buildSchema(segments: Record<string, string>): JSONSchema {
+    const keys = Object.keys(segments);
+    return {
+      type: 'object',
+      properties: Object.fromEntries(keys.map(key => [key, { type: 'string' }])),
+      required: keys,
+      additionalProperties: false
+    };
+  }
+
+  private parseResponse(response: string): Record<string, unknown> {
+    const json = response.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+    try {
+      const data = JSON.parse(json);
+      if (data && typeof data === 'object' && !Array.isArray(data)) return data;
+    } catch {
+      // Reported below
+    }
+    throw new AIResponseFormatError('Translation response is not a JSON object');
+  }
+
+  /**
+   * Every text leaf under the translatable fields, keyed by its path, e.g.
+   * "aiContext.commonQuestions.0.answer"
+   */
+  private collectSegments(content: AISearchContent): Record<string, string> {
+    const segments: Record<string, string> = {};
+
+    const collect = (value: unknown, path: string) => {
+      if (typeof value === 'string') {
+        if (value.trim()) segments[path] = value;
+      } else if (Array.isArray(value)) {
+        value.forEach((item, index) => collect(item, `${path}.${index}`));
+      } else if (value && typeof value === 'object') {
+        Object.entries(value).forEach(([key, item]) => collect(item, `${path}.${key}`));
+      }
+    };
+
+    for (const field of TRANSLATABLE_FIELDS) {
+      const [section, key] = field.split('.') as [keyof AISearchContent, string];
+      collect((content[section] as Record<string, unknown> | undefined)?.[key], field);
+    }
+
+    // Product names are ours and stay as listed; the reasons are shown to shoppers
+    for (const list of RELATED_PRODUCT_LISTS) {
+      content.relatedProducts?.[list]?.forEach((reference, index) => {
+        collect(reference.reason, `relatedProducts.${list}.${index}.reason`);
+      });
+    }
+
+    return segments;
+  }
+
+  private setSegment(content: AISearchContent, path: string, text: string): void {
+    const keys = path.split('.');
+    const parent = keys.slice(0, -1).reduce<any>((value, key) => value[key], content);
+    parent[keys[keys.length - 1]] = text;
+  }
+
+  // Numbers and the scientific name must come through unchanged
+  private preservesFacts(source: string, translation: string, scientificName: string): boolean {
+    const numbers = (text: string) => (text.match(/\d+(?:[.,]\d+)?/g) || [])
+      .map(number => parseFloat(number.replace(',', '.')))
+      .sort((a, b) => a - b)
+      .join(' ');
+
+    if (numbers(source) !== numbers(translation)) return false;
+    return !scientificName || !source.includes(scientificName) || translation.includes(scientificName);
+  }
+}
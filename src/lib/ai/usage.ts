@@ -0,0 +1,14 @@
+import { TokenUsage } from '@/types/content';
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+/**
+ * Sum token usage, treating missing counts as zero
+ */
+export function addUsage(...usages: Array<TokenUsage | undefined>): TokenUsage {
+  return usages.reduce<TokenUsage>((total, usage) => usage ? {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens
+  } : total, EMPTY_USAGE);
+}
@@ -0,0 +1,246 @@
+import {
+  AISearchContent,
+  ContentConfig,
+  ValidationError,
+  ValidationResult,
+  ValidationWarning
+} from '@/types/content';
+import { compareWithReference } from '@/lib/species/fact-check';
+import { CareParameterFailure, normalizeCareRequirements } from './care-parameters';
+import { findMissingFields, getFieldValue, getTemplate } from './templates';
+
+type ValidationLevel = ContentConfig['validation'];
+
+interface ValidationPolicy {
+  blockingSeverities: ValidationError['severity'][];
+  minScore: number;
+}
+
+// What stops content being published at each level; anything short of that is only flagged
+export const VALIDATION_POLICIES: Record<ValidationLevel, ValidationPolicy> = {
+  strict: { blockingSeverities: ['critical', 'major'], minScore: 85 },
+  moderate: { blockingSeverities: ['critical'], minScore: 60 },
+  lenient: { blockingSeverities: [], minScore: 0 }
+};
+
+const SEVERITY_PENALTIES: Record<ValidationError['severity'], number> = {
+  critical: 25,
+  major: 10,
+  minor: 3
+};
+const WARNING_PENALTY = 1;
+
+// Example values from the prompt's JSON structure that the model sometimes echoes back
+const PROMPT_PLACEHOLDERS = new Set([
+  'actual scientific name',
+  'primary name',
+  'alternative names',
+  'actual fish family',
+  'natural habitat/geographic origin',
+  'freshwater/saltwater',
+  'detailed diet information',
+  'beginner/intermediate/advanced',
+  'peaceful/semi-aggressive/aggressive',
+  'community details',
+  'list of compatible species',
+  'list of incompatible species',
+  'community types',
+  'species with similar care',
+  'why this fish is popular with aquarists',
+  'unique features',
+  'benefits',
+  'relevant question',
+  'detailed answer',
+  'other names',
+  'easy/moderate/difficult',
+  'detailed breeding information, including how to identify males/females',
+  'egg scatterer/mouthbrooder/livebearer/etc.',
+  'shop category, e.g. tetras or dwarf cichlids'
+]);
+
+const PLACEHOLDER_PATTERNS = [
+  /\bX{1,2}(\.X)?\s*-\s*X{1,2}(\.X)?\b/, // XX-XX°F, X.X-X.X
+  /\bX{1,2}\s+(gallons?|inches|years?|cm|litres?|liters?)\b/, // X gallons minimum
+  /lorem ipsum|\bTBD\b|\bTODO\b|\[insert|placeholder/i
+];
+
+// Reported when a care requirement has no number we can read; the message follows the quoted value
+const UNPARSEABLE_PARAMETERS: Record<CareParameterFailure['field'], ValidationError> = {
+  temperature: {
+    field: 'careRequirements.temperatureRange',
+    message: 'has no temperature in °F or °C',
+    severity: 'major'
+  },
+  ph: { field: 'careRequirements.phRange', message: 'has no pH value', severity: 'major' },
+  tankSize: {
+    field: 'careRequirements.minTankSize',
+    message: 'has no volume in gallons or litres',
+    severity: 'major'
+  },
+  maxSize: {
+    field: 'careRequirements.maxSize',
+    message: 'has no size in inches or centimetres',
+    severity: 'major'
+  },
+  lifespanYears: { field: 'careRequirements.lifespan', message: 'has no lifespan in years or months', severity: 'minor' }
+};
+
+/**
+ * Scores generated content and decides whether it may be published at the
+ * job's validation level
+ */
+export class ContentValidator {
+  validate(content: AISearchContent, config: ContentConfig): ValidationResult {
+    const template = getTemplate(config.templateType);
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    for (const field of findMissingFields(content, template.validation.required)) {
+      errors.push({ field, message: 'Required field is missing or empty', severity: 'critical' });
+    }
+
+    for (const field of findMissingFields(content, template.validation.optional)) {
+      warnings.push({
+        field,
+        message: 'Optional field is missing or empty',
+        suggestion: 'Regenerate to fill in this field'
+      });
+    }
+
+    this.checkPlaceholders(content, errors);
+    this.checkFormats(content, errors);
+
+    for (const [field, maxLength] of Object.entries(template.validation.maxLengths)) {
+      const value = getFieldValue(content, field);
+      if (typeof value === 'string' && value.length > maxLength) {
+        errors.push({
+          field,
+          message: `${value.length} characters, limit is ${maxLength}`,
+          severity: 'minor'
+        });
+      }
+    }
+
+    this.checkCompleteness(content, warnings);
+
+    // Fact-check care parameters against the species reference the content was grounded on
+    const reference = content.metadata?.speciesReference;
+    if (reference) {
+      warnings.push(...compareWithReference(content, reference));
+    }
+
+    const score = Math.max(0, 100
+      - errors.reduce((total, error) => total + SEVERITY_PENALTIES[error.severity], 0)
+      - warnings.length * WARNING_PENALTY);
+
+    const policy = VALIDATION_POLICIES[config.validation] || VALIDATION_POLICIES.moderate;
+    const isValid = score >= policy.minScore &&
+      !errors.some(error => policy.blockingSeverities.includes(error.severity));
+
+    return { isValid, errors, warnings, score };
+  }
+
+  private checkPlaceholders(content: AISearchContent, errors: ValidationError[]): void {
+    // Only the generated sections; metadata and related products are filled in by us
+    const sections = ['basicInfo', 'careRequirements', 'compatibility', 'aiContext', 'breeding'] as const;
+
+    for (const section of sections) {
+      for (const [field, value] of this.stringLeaves(content[section], section)) {
+        const isPlaceholder = PROMPT_PLACEHOLDERS.has(value.trim().toLowerCase()) ||
+          PLACEHOLDER_PATTERNS.some(pattern => pattern.test(value));
+
+        if (isPlaceholder) {
+          errors.push({ field, message: `Placeholder text "${value}"`, severity: 'critical' });
+        }
+      }
+    }
+  }
+
+  private checkFormats(content: AISearchContent, errors: ValidationError[]): void {
+    const scientificName = content.basicInfo?.scientificName;
+    const care: Partial<AISearchContent['careRequirements']> = content.careRequirements || {};
+
+    // Binomial, optionally an undescribed "sp." or a "cf."/"aff." comparison
+    if (scientificName &&
+        !/^[A-Z][a-z]+ (?:(?:cf\.|aff\.) )?(?:[a-z-]+|sp\.)/.test(scientificName.trim())) {
+      errors.push({
+        field: 'basicInfo.scientificName',
+        message: `"${scientificName}" is not a binomial scientific name`,
+        severity: 'major'
+      });
+    }
+
+    const { parameters, failures } = normalizeCareRequirements(care);
+
+    for (const failure of failures) {
+      const { field, message, severity } = UNPARSEABLE_PARAMETERS[failure.field];
+      errors.push({ field, message: `"${failure.value}" ${message}`, severity });
+    }
+
+    const { temperature, ph } = parameters;
+    if (temperature && (temperature.minC > temperature.maxC || temperature.minC < 5 || temperature.maxC > 40)) {
+      errors.push({
+        field: 'careRequirements.temperatureRange',
+        message: `"${care.temperatureRange}" is not a plausible aquarium temperature range`,
+        severity: 'major'
+      });
+    }
+
+    if (ph && (ph.min > ph.max || ph.min < 3 || ph.max > 10)) {
+      errors.push({
+        field: 'careRequirements.phRange',
+        message: `"${care.phRange}" is not a plausible pH range such as "6.5-7.5"`,
+        severity: 'major'
+      });
+    }
+  }
+
+  private checkCompleteness(content: AISearchContent, warnings: ValidationWarning[]): void {
+    const questions = content.aiContext?.commonQuestions || [];
+    if (questions.length < 3) {
+      warnings.push({
+        field: 'aiContext.commonQuestions',
+        message: `Only ${questions.length} common questions`,
+        suggestion: 'Aim for at least three questions customers ask before buying'
+      });
+    }
+
+    const compatibleWith = content.compatibility?.compatibleWith || [];
+    if (compatibleWith.length > 0 && compatibleWith.length < 3) {
+      warnings.push({
+        field: 'compatibility.compatibleWith',
+        message: `Only ${compatibleWith.length} compatible species`,
+        suggestion: 'List at least three specific tank mates'
+      });
+    }
+  }
+
+  private stringLeaves(value: unknown, path: string): Array<[string, string]> {
+    if (typeof value === 'string') return [[path, value]];
+    if (Array.isArray(value)) {
+      return value.flatMap((item, index) => this.stringLeaves(item, `${path}[${index}]`));
+    }
+    if (value && typeof value === 'object') {
+      return Object.entries(value).flatMap(([key, item]) => this.stringLeaves(item, `${path}.${key}`));
+    }
+    return [];
+  }
+}
+
+// Validation failed badly enough that the job's validation level won't publish it
+export class ContentValidationError extends Error {
+  result: ValidationResult;
+
+  constructor(result: ValidationResult) {
+    const summary = result.errors
+      .slice(0, 3)
+      .map(error => `${error.field}: ${error.message}`)
+      .join('; ');
+
+    super(`Content failed validation (score ${result.score}): ${summary || 'quality score too low'}`);
+    this.name = 'ContentValidationError';
+    this.result = result;
+  }
+}
+
+export const contentValidator = new ContentValidator();
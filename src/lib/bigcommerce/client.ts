@@ -1,5 +1,31 @@
 import { Product } from '@/types/content';
 
+// Non-2xx response from the BigCommerce API, once any retries are used up
+export class BigCommerceAPIError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'BigCommerceAPIError';
+    this.status = status;
+  }
+}
+
+const PAGE_LIMIT = 250;
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 504]);
+
+// Wait after a 429 that didn't say when the rate-limit window resets
+const DEFAULT_RATE_LIMIT_WAIT_MS = 1000;
+
+// When each store's rate-limit window reopens; the quota is per store, not per client
+declare global {
+  var bigCommerceRateLimits: Map<string, number> | undefined;
+}
+
+const rateLimitResets = global.bigCommerceRateLimits ?? (global.bigCommerceRateLimits = new Map());
+
 export class BigCommerceClient {
   private storeHash: string;
   private accessToken: string;
@@ -18,31 +44,7 @@ export class BigCommerceClient {
     }
 
     try {
-      const allProducts: any[] = [];
-      let page = 1;
-      let hasMore = true;
-
-      while (hasMore) {
-        const response = await fetch(`${this.apiUrl}/catalog/products?categories:in=${categoryId}&include=images,categories&page=${page}&limit=250`, {
-          headers: {
-            'X-Auth-Token': this.accessToken,
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          }
-        });
-
-        if (!response.ok) {
-          throw new Error(`BigCommerce API error: ${response.status}`);
-        }
-
-        const data = await response.json();
-        allProducts.push(...data.data);
-
-        // Check if there are more pages
-        hasMore = data.data.length === 250;
-        page++;
-      }
-
+      const allProducts = await this.getAllPages(`/catalog/products?categories:in=${categoryId}&include=images,categories`);
       return this.transformProducts(allProducts);
     } catch (error) {
       console.error('Failed to fetch products from BigCommerce:', error);
@@ -58,30 +60,7 @@ export class BigCommerceClient {
     }
 
     try {
-      const allCategories: any[] = [];
-      let page = 1;
-      let hasMore = true;
-
-      while (hasMore) {
-        const response = await fetch(`${this.apiUrl}/catalog/categories?page=${page}&limit=250`, {
-          headers: {
-            'X-Auth-Token': this.accessToken,
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          }
-        });
-
-        if (!response.ok) {
-          throw new Error(`BigCommerce API error: ${response.status}`);
-        }
-
-        const data = await response.json();
-        allCategories.push(...data.data);
-
-        // Check if there are more pages
-        hasMore = data.data.length === 250;
-        page++;
-      }
+      const allCategories = await this.getAllPages('/catalog/categories');
 
       return allCategories.map((cat: any) => ({
         id: cat.id,
@@ -109,33 +88,10 @@ export class BigCommerceClient {
     }
 
     try {
-      const allProducts: any[] = [];
-      let page = 1;
-      let hasMore = true;
-
-      while (hasMore) {
-        const response = await fetch(`${this.apiUrl}/catalog/products?include=images,categories&page=${page}&limit=250`, {
-          headers: {
-            'X-Auth-Token': this.accessToken,
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          }
-        });
-
-        if (!response.ok) {
-          throw new Error(`BigCommerce API error: ${response.status}`);
-        }
-
-        const data = await response.json();
-        allProducts.push(...data.data);
-
-        // Check if there are more pages
-        hasMore = data.data.length === 250;
-        page++;
-
+      const allProducts = await this.getAllPages('/catalog/products?include=images,categories', (page, totalPages, count) => {
         // Add some logging to track progress
-        console.log(`Fetched page ${page - 1}, total products so far: ${allProducts.length}`);
-      }
+        console.log(`Fetched page ${page}/${totalPages}, total products so far: ${count}`);
+      });
 
       console.log(`Finished fetching all products. Total: ${allProducts.length}`);
       return this.transformProducts(allProducts);
@@ -154,6 +110,94 @@ export class BigCommerceClient {
     }
   }
 
+  /**
+   * A single product, or null when it doesn't exist (e.g. deleted since a webhook was sent)
+   */
+  async getProduct(productId: number): Promise<Product | null> {
+    if (!this.storeHash || !this.accessToken) {
+      console.warn('BigCommerce credentials not configured, cannot fetch product');
+      return null;
+    }
+
+    try {
+      const data = await this.request(`/catalog/products/${productId}?include=images,categories`);
+      return this.transformProducts([data.data])[0];
+    } catch (error) {
+      if (error instanceof BigCommerceAPIError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Every page of a collection, following meta.pagination.total_pages
+   */
+  private async getAllPages(
+    path: string,
+    onPage?: (page: number, totalPages: number, count: number) => void
+  ): Promise<any[]> {
+    const items: any[] = [];
+    const separator = path.includes('?') ? '&' : '?';
+    let totalPages = 1;
+
+    for (let page = 1; page <= totalPages; page++) {
+      const data = await this.request(`${path}${separator}page=${page}&limit=${PAGE_LIMIT}`);
+      items.push(...data.data);
+
+      // Without pagination metadata, a full page is the only hint there may be another
+      totalPages = data.meta?.pagination?.total_pages ?? (data.data.length === PAGE_LIMIT ? page + 1 : page);
+      onPage?.(page, totalPages, items.length);
+    }
+
+    return items;
+  }
+
+  /**
+   * GET a path under the v3 API. Waits out the store's rate-limit window
+   * when the quota is spent or a 429 comes back, and retries transient
+   * 5xx errors with exponential backoff.
+   */
+  private async request(path: string): Promise<any> {
+    for (let attempt = 0; ; attempt++) {
+      const waitMs = (rateLimitResets.get(this.storeHash) ?? 0) - Date.now();
+      if (waitMs > 0) await this.delay(waitMs);
+
+      const response = await fetch(`${this.apiUrl}${path}`, {
+        headers: {
+          'X-Auth-Token': this.accessToken,
+          'Content-Type': 'application/json',
+          'Accept': 'application/json'
+        }
+      });
+      this.trackRateLimit(response);
+
+      if (response.ok) return response.json();
+
+      if (attempt < MAX_RETRIES && response.status === 429) {
+        console.warn(`BigCommerce rate limit reached, retrying ${path} when the window resets`);
+        continue;
+      }
+
+      if (attempt < MAX_RETRIES && RETRYABLE_STATUSES.has(response.status)) {
+        const delayMs = RETRY_BASE_DELAY_MS * 2 ** attempt;
+        console.warn(`BigCommerce API error ${response.status}, retrying ${path} in ${delayMs}ms`);
+        await this.delay(delayMs);
+        continue;
+      }
+
+      throw new BigCommerceAPIError(`BigCommerce API error: ${response.status}`, response.status);
+    }
+  }
+
+  // Holds every client for this store once the quota is spent, until the window resets
+  private trackRateLimit(response: Response): void {
+    const requestsLeft = response.headers.get('x-rate-limit-requests-left');
+    if (response.status !== 429 && requestsLeft !== '0') return;
+
+    const resetMs = Number(response.headers.get('x-rate-limit-time-reset-ms'));
+    const resumeAt = Date.now() + (resetMs > 0 ? resetMs : DEFAULT_RATE_LIMIT_WAIT_MS);
+    rateLimitResets.set(this.storeHash, Math.max(rateLimitResets.get(this.storeHash) ?? 0, resumeAt));
+  }
+
   private async delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
@@ -0,0 +1,43 @@
+import { timingSafeEqual } from 'crypto';
+
+// Scopes that can give a product new or changed content
+export const PRODUCT_WEBHOOK_SCOPES = ['store/product/created', 'store/product/updated'] as const;
+
+export type ProductWebhookScope = typeof PRODUCT_WEBHOOK_SCOPES[number];
+
+// Header BigCommerce is told to send with each delivery when the webhook is registered
+export const WEBHOOK_SECRET_HEADER = 'x-webhook-secret';
+
+export interface WebhookPayload {
+  scope: string;
+  store_id: string;
+  producer: string; // "stores/{store_hash}"
+  hash: string;
+  created_at: number;
+  data: {
+    type: string;
+    id: number;
+  };
+}
+
+/**
+ * BigCommerce doesn't sign webhook payloads, so deliveries are trusted by a
+ * shared secret registered as a custom header on the webhook. The producer
+ * must also be our store when the store hash is configured.
+ */
+export function verifyWebhook(secretHeader: string | null, payload: WebhookPayload): boolean {
+  const secret = process.env.BIGCOMMERCE_WEBHOOK_SECRET;
+  if (!secret || !secretHeader) return false;
+
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(secretHeader);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return false;
+
+  const storeHash = process.env.BIGCOMMERCE_STORE_HASH;
+  return !storeHash || payload.producer === `stores/${storeHash}`;
+}
+
+export function isProductWebhook(payload: WebhookPayload): payload is WebhookPayload & { scope: ProductWebhookScope } {
+  return (PRODUCT_WEBHOOK_SCOPES as readonly string[]).includes(payload.scope) &&
+    Number.isInteger(payload.data?.id);
+}
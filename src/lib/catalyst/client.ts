@@ -1,4 +1,6 @@
 import { AISearchContent, Product } from '@/types/content';
+import { formatCareRequirements } from '@/lib/ai/care-parameters';
+import { getLocaleProfile } from '@/lib/locale/profiles';
 import { JSONFileGenerator } from './file-generator';
 
 export interface CatalystDeploymentConfig {
@@ -96,6 +98,7 @@ export class CatalystClient {
         },
         body: JSON.stringify({
           productId: content.productId,
+          locale: content.metadata.locale,
           content: content,
           timestamp: new Date().toISOString()
         })
@@ -121,7 +124,9 @@ export class CatalystClient {
   private async publishViaAPI(content: AISearchContent): Promise<boolean> {
     try {
       // Direct API integration with BigCommerce/Catalyst
-      const apiUrl = `${this.catalystUrl}/api/products/${content.productId}/ai-content`;
+      const apiUrl = content.metadata.translation
+        ? `${this.catalystUrl}/api/products/${content.productId}/ai-content?locale=${content.metadata.locale}`
+        : `${this.catalystUrl}/api/products/${content.productId}/ai-content`;
 
       const response = await fetch(apiUrl, {
         method: 'PUT',
@@ -161,7 +166,9 @@ export class CatalystClient {
           metadata: {
             generatedAt: content.metadata.generatedAt,
             confidence: content.metadata.confidence,
-            template: content.metadata.template
+            template: content.metadata.template,
+            locale: content.metadata.locale,
+            translatedFrom: content.metadata.translation?.sourceLocale
           }
         })
       });
@@ -200,7 +207,8 @@ export class CatalystClient {
       compatibility: {
         compatibleSpecies: content.compatibility.compatibleWith,
         avoidSpecies: content.compatibility.avoidWith,
-        tankMateCategories: content.compatibility.tankMateCategories
+        tankMateCategories: content.compatibility.tankMateCategories,
+        similarSpecies: content.compatibility.similarSpecies
       },
 
       // FAQ Section
@@ -229,24 +237,27 @@ export class CatalystClient {
 
   private generateEnhancedDescription(content: AISearchContent): string {
     const { basicInfo, careRequirements, aiContext } = content;
+    // Care facts in the units and language of the locale the content was written for
+    const { units, labels } = getLocaleProfile(content.metadata.locale);
+    const formatted = content.metadata.translation ? careRequirements : formatCareRequirements(careRequirements, units);
 
     return `
 **${basicInfo.scientificName}** (${basicInfo.commonNames.join(', ')})
 
 ${aiContext.whyPopular}
 
-**Quick Care Facts:**
-• Tank Size: ${careRequirements.minTankSize}
-• Temperature: ${careRequirements.temperatureRange}
-• pH: ${careRequirements.phRange}
-• Care Level: ${careRequirements.careLevel}
-• Temperament: ${careRequirements.temperament}
+**${labels.quickCareFacts}:**
+• ${labels.tankSize}: ${formatted.minTankSize}
+• ${labels.temperature}: ${formatted.temperatureRange}
+• ${labels.ph}: ${formatted.phRange}
+• ${labels.careLevel}: ${careRequirements.careLevel}
+• ${labels.temperament}: ${careRequirements.temperament}
 
-**Key Features:**
+**${labels.keyFeatures}:**
 ${aiContext.keySellingPoints.map(point => `• ${point}`).join('\n')}
 
-**Origin:** ${basicInfo.origin}
-**Family:** ${basicInfo.family}
+**${labels.origin}:** ${basicInfo.origin}
+**${labels.family}:** ${basicInfo.family}
     `.trim();
   }
 
@@ -1,4 +1,19 @@
-import { AISearchContent, Product, SpeciesContent } from '@/types/content';
+import { AISearchContent, LocaleCode, Product, SpeciesContent } from '@/types/content';
+import { formatCareRequirements } from '@/lib/ai/care-parameters';
+import { getLocaleProfile } from '@/lib/locale/profiles';
+
+/**
+ * File name for generated content, e.g. "123-details.json", or
+ * "123-details.fr-FR.json" for a translated variant
+ */
+export function jsonFileName(productId: number, type: 'quickref' | 'details', locale?: LocaleCode): string {
+  return locale ? `${productId}-${type}.${locale}.json` : `${productId}-${type}.json`;
+}
+
+// Only translations are named by locale; generated content keeps the plain name
+function variantLocale(content: AISearchContent): LocaleCode | undefined {
+  return content.metadata.translation ? content.metadata.locale : undefined;
+}
 
 export class JSONFileGenerator {
   private outputDir: string;
@@ -14,34 +29,31 @@ export class JSONFileGenerator {
   }
 
   /**
-   * Generate [productId]-quickref.json file
+   * Quick reference data for a product, with care parameters in the locale's units
    */
-  generateQuickRefJSON(content: AISearchContent, product: Product): string {
-    const quickRefData = {
+  buildQuickRefData(content: AISearchContent, product: Product) {
+    return {
       productId: content.productId,
       type: "quickref",
       scientificName: content.basicInfo.scientificName,
       commonName: content.basicInfo.commonNames[0] || product.name,
-      quickReference: [
-        `Tank Size: ${content.careRequirements.minTankSize}`,
-        `Temperature: ${content.careRequirements.temperatureRange}`,
-        `pH: ${content.careRequirements.phRange}`,
-        `Care Level: ${content.careRequirements.careLevel}`,
-        `Temperament: ${content.careRequirements.temperament}`,
-        `Max Size: ${content.careRequirements.maxSize}`,
-        `Diet: ${content.careRequirements.diet}`,
-        `Lifespan: ${content.careRequirements.lifespan}`,
-        `Origin: ${content.basicInfo.origin}`,
-        `Family: ${content.basicInfo.family}`
-      ],
+      quickReference: this.buildQuickReference(content),
       generatedAt: content.metadata.generatedAt,
       metadata: {
         fishFamily: content.metadata.fishFamily,
-        template: content.metadata.template
+        template: content.metadata.template,
+        locale: content.metadata.locale
       }
     };
+  }
 
-    const filename = `${content.productId}-quickref.json`;
+  /**
+   * Generate [productId]-quickref.json file, or [productId]-quickref.<locale>.json for a translation
+   */
+  generateQuickRefJSON(content: AISearchContent, product: Product): string {
+    const quickRefData = this.buildQuickRefData(content, product);
+
+    const filename = jsonFileName(content.productId, 'quickref', variantLocale(content));
     const filepath = `${this.outputDir}/${filename}`;
 
     // Log the JSON structure for demonstration
@@ -53,8 +65,28 @@ export class JSONFileGenerator {
     return filepath;
   }
 
+  private buildQuickReference(content: AISearchContent): string[] {
+    const { units, labels } = getLocaleProfile(content.metadata.locale);
+    const care = content.careRequirements;
+    // Translations already have their care strings in the locale's units and language
+    const formatted = content.metadata.translation ? care : formatCareRequirements(care, units);
+
+    return [
+      `${labels.tankSize}: ${formatted.minTankSize}`,
+      `${labels.temperature}: ${formatted.temperatureRange}`,
+      `${labels.ph}: ${formatted.phRange}`,
+      `${labels.careLevel}: ${care.careLevel}`,
+      `${labels.temperament}: ${care.temperament}`,
+      `${labels.maxSize}: ${formatted.maxSize}`,
+      `${labels.diet}: ${care.diet}`,
+      `${labels.lifespan}: ${formatted.lifespan}`,
+      `${labels.origin}: ${content.basicInfo.origin}`,
+      `${labels.family}: ${content.basicInfo.family}`
+    ];
+  }
+
   /**
-   * Generate [productId]-details.json file
+   * Generate [productId]-details.json file, or [productId]-details.<locale>.json for a translation
    */
   generateDetailsJSON(content: AISearchContent): string {
     // Use the complete AISearchContent structure as defined in types
@@ -72,7 +104,7 @@ export class JSONFileGenerator {
       metadata: content.metadata
     };
 
-    const filename = `${content.productId}-details.json`;
+    const filename = jsonFileName(content.productId, 'details', variantLocale(content));
     const filepath = `${this.outputDir}/${filename}`;
 
     // Log the JSON structure for demonstration
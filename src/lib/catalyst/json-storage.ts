@@ -0,0 +1,49 @@
+import { AISearchContent, LocaleCode, Product } from '@/types/content';
+import { isLocaleCode } from '@/lib/locale/profiles';
+import { JSONFileGenerator } from './file-generator';
+
+export type JSONFileType = 'quickref' | 'details';
+
+// In-memory storage for demo (replace with Supabase in production), shared across route modules
+declare global {
+  var jsonStorage: Map<string, any> | undefined;
+}
+
+export const jsonStorage = global.jsonStorage ?? (global.jsonStorage = new Map());
+
+export function getStorageKey(productId: number, type: JSONFileType, locale?: LocaleCode): string {
+  return locale ? `${productId}-${type}.${locale}` : `${productId}-${type}`;
+}
+
+export function parseStorageKey(key: string): { productId: number; type: JSONFileType; locale?: LocaleCode } {
+  const [, productId, type, locale] = key.match(/^(\d+)-(quickref|details)(?:\.(.+))?$/)!;
+  return {
+    productId: parseInt(productId),
+    type: type as JSONFileType,
+    ...(isLocaleCode(locale) && { locale })
+  };
+}
+
+// Utility function to populate storage with existing generated content
+export async function populateStorageFromGeneration(productId: number, aiContent: AISearchContent, product: Product) {
+  try {
+    const fileGenerator = new JSONFileGenerator();
+
+    // Generate and store quickref JSON
+    const quickrefData = fileGenerator.buildQuickRefData(aiContent, product);
+    // Translations are stored alongside the generated files rather than replacing them
+    const locale = aiContent.metadata.translation ? aiContent.metadata.locale : undefined;
+
+    jsonStorage.set(getStorageKey(productId, 'quickref', locale), quickrefData);
+    jsonStorage.set(getStorageKey(productId, 'details', locale), aiContent);
+
+    console.log(`📁 Stored JSON files for product ${productId} in memory`);
+  } catch (error) {
+    console.error('Error populating storage:', error);
+  }
+}
+
+// Generated (untranslated) content for a product, if any
+export function getStoredDetails(productId: number): AISearchContent | undefined {
+  return jsonStorage.get(getStorageKey(productId, 'details'));
+}
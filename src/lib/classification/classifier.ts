@@ -0,0 +1,80 @@
+import {
+  ContentConfig,
+  FishCategorizationRule,
+  Product,
+  ProductClassification
+} from '@/types/content';
+import { DEFAULT_CLASSIFICATION_RULES } from './rules';
+
+// Used when no rule matches a product
+const DEFAULT_CLASSIFICATION: ProductClassification = {
+  family: 'community',
+  behavior: 'community-friendly',
+  templateType: 'community-standard'
+};
+
+/**
+ * Picks family, behavior and template for a product from its categories and
+ * name. Every pattern a rule defines must match; the highest priority match
+ * wins, and earlier rules win ties.
+ */
+export class FishClassifier {
+  private rules: FishCategorizationRule[];
+
+  constructor(rules: FishCategorizationRule[] = DEFAULT_CLASSIFICATION_RULES) {
+    // Stable sort keeps declaration order for rules of equal priority
+    this.rules = [...rules].sort((a, b) => b.priority - a.priority);
+  }
+
+  classify(product: Product): ProductClassification {
+    const rule = this.rules.find(rule => this.matches(rule, product));
+    if (!rule) return { ...DEFAULT_CLASSIFICATION };
+
+    return {
+      family: rule.family,
+      behavior: rule.behavior,
+      templateType: rule.template,
+      rule: rule.name
+    };
+  }
+
+  classifyAll(products: Product[]): Product[] {
+    return products.map(product => ({ ...product, classification: this.classify(product) }));
+  }
+
+  private matches(rule: FishCategorizationRule, product: Product): boolean {
+    const categories = product.categories.filter(Boolean).join(' | ');
+    if (!rule.categoryPattern.test(categories)) return false;
+
+    // Catalog names usually carry the genus, but some only mention it in the description
+    if (rule.scientificNamePattern &&
+        !rule.scientificNamePattern.test(`${product.name} ${product.description}`)) {
+      return false;
+    }
+
+    if (rule.commonNamePattern && !rule.commonNamePattern.test(product.name)) {
+      return false;
+    }
+
+    return true;
+  }
+}
+
+export const fishClassifier = new FishClassifier();
+
+/**
+ * The generation config for one product: the job's config, with family,
+ * behavior and template replaced by the product's classification when the
+ * job auto-classifies
+ */
+export function resolveProductConfig(product: Product, config: ContentConfig): ContentConfig {
+  if (!config.autoClassify) return config;
+
+  const classification = product.classification || fishClassifier.classify(product);
+  return {
+    ...config,
+    family: classification.family,
+    behavior: classification.behavior,
+    templateType: classification.templateType
+  };
+}
@@ -0,0 +1,242 @@
+import { FishCategorizationRule } from '@/types/content';
+
+// Name-based rules apply whatever category the product was listed under
+const ANY_CATEGORY = /.*/;
+
+/**
+ * Default rules for the Riverpark catalog. Species-level name rules carry a
+ * higher priority than category rules so e.g. a Bolivian Ram listed under
+ * "Central/South American" isn't treated like a Convict Cichlid.
+ */
+export const DEFAULT_CLASSIFICATION_RULES: FishCategorizationRule[] = [
+  // Species that need specialist care regardless of where they are listed
+  {
+    name: 'Specialist species',
+    categoryPattern: ANY_CATEGORY,
+    commonNamePattern: /puffer|arowana|stingray|bichir|knifefish|archer ?fish|\beel\b|goby|killifish|mudskipper/i,
+    family: 'specialty',
+    behavior: 'semi-aggressive',
+    template: 'specialty-care',
+    priority: 100
+  },
+
+  // Cichlids by species
+  {
+    name: 'Large or territorial New World cichlids',
+    categoryPattern: ANY_CATEGORY,
+    commonNamePattern: /convict|jack dempsey|green terror|oscar|texas|red devil|midas|flowerhorn|jaguar|severum|salvini|managuense|blood parrot/i,
+    family: 'cichlids',
+    behavior: 'territorial-aggressive',
+    template: 'cichlid-aggressive',
+    priority: 90
+  },
+  {
+    name: 'Semi-aggressive New World cichlids',
+    categoryPattern: ANY_CATEGORY,
+    commonNamePattern: /firemouth|jewel cichlid|geophagus|eartheater|festivum/i,
+    family: 'cichlids',
+    behavior: 'semi-aggressive',
+    template: 'cichlid-aggressive',
+    priority: 90
+  },
+  {
+    name: 'Dwarf and peaceful cichlids',
+    categoryPattern: ANY_CATEGORY,
+    commonNamePattern: /\brams?\b|apistogramma|kribensis|pelvicachromis|acara|keyhole|angelfish|discus|shell ?dweller|multifasciatus|dwarf cichlid/i,
+    family: 'cichlids',
+    behavior: 'community-friendly',
+    template: 'cichlid-peaceful',
+    priority: 90
+  },
+  {
+    name: 'African rift lake cichlid genera',
+    categoryPattern: ANY_CATEGORY,
+    scientificNamePattern: /aulonocara|labidochromis|pseudotropheus|maylandia|metriaclima|melanochromis|cynotilapia|iodotropheus|protomelas|sciaenochromis|copadichromis|nimbochromis|tropheus|cyphotilapia|frontosa|calvus|altolamprologus|julidochromis|neolamprologus|leleupi|brichardi|compressiceps/i,
+    family: 'cichlids',
+    behavior: 'territorial-aggressive',
+    template: 'cichlid-aggressive',
+    priority: 80
+  },
+
+  // Other families by species
+  {
+    name: 'Fin-nipping tetras',
+    categoryPattern: ANY_CATEGORY,
+    commonNamePattern: /serpae|black skirt|black widow|buenos aires/i,
+    family: 'tetras',
+    behavior: 'semi-aggressive',
+    template: 'tetra-schooling',
+    priority: 85
+  },
+  {
+    name: 'Fin-nipping barbs',
+    categoryPattern: ANY_CATEGORY,
+    commonNamePattern: /tiger barb|green barb|tinfoil/i,
+    family: 'barbs',
+    behavior: 'semi-aggressive',
+    template: 'tetra-schooling',
+    priority: 85
+  },
+  {
+    name: 'Livebearers',
+    categoryPattern: ANY_CATEGORY,
+    commonNamePattern: /guppy|guppies|moll(y|ies)|platy|platies|swordtail|endler|livebearer/i,
+    family: 'livebearers',
+    behavior: 'community-friendly',
+    template: 'livebearer-breeding',
+    priority: 70
+  },
+  {
+    name: 'Catfish and plecos',
+    categoryPattern: ANY_CATEGORY,
+    commonNamePattern: /corydoras|\bcory\b|pleco|otocinclus|synodontis|catfish|ancistrus|bristlenose/i,
+    family: 'catfish',
+    behavior: 'bottom-dwelling',
+    template: 'catfish-bottom',
+    priority: 70
+  },
+  {
+    name: 'Loaches',
+    categoryPattern: ANY_CATEGORY,
+    commonNamePattern: /loach|botia|kuhli/i,
+    family: 'loaches',
+    behavior: 'bottom-dwelling',
+    template: 'catfish-bottom',
+    priority: 70
+  },
+  {
+    name: 'Tetras',
+    categoryPattern: ANY_CATEGORY,
+    commonNamePattern: /tetra|pencilfish|hatchetfish/i,
+    family: 'tetras',
+    behavior: 'peaceful-schooling',
+    template: 'tetra-schooling',
+    priority: 60
+  },
+  {
+    name: 'Danios and rasboras',
+    categoryPattern: ANY_CATEGORY,
+    commonNamePattern: /danio|rasbora|celestial pearl/i,
+    family: 'danios',
+    behavior: 'peaceful-schooling',
+    template: 'tetra-schooling',
+    priority: 60
+  },
+  {
+    name: 'Barbs',
+    categoryPattern: ANY_CATEGORY,
+    commonNamePattern: /\bbarbs?\b/i,
+    family: 'barbs',
+    behavior: 'peaceful-schooling',
+    template: 'tetra-schooling',
+    priority: 60
+  },
+  {
+    name: 'Gouramis and labyrinth fish',
+    categoryPattern: ANY_CATEGORY,
+    commonNamePattern: /gourami|paradise fish|betta/i,
+    family: 'gouramis',
+    behavior: 'surface-dwelling',
+    template: 'community-standard',
+    priority: 60
+  },
+  {
+    name: 'Rainbowfish',
+    categoryPattern: ANY_CATEGORY,
+    commonNamePattern: /rainbow/i,
+    family: 'rainbowfish',
+    behavior: 'peaceful-schooling',
+    template: 'community-standard',
+    priority: 60
+  },
+
+  // Category fallbacks for products whose names don't identify them
+  {
+    name: 'African rift lake cichlid categories',
+    categoryPattern: /malawi|tanganyika|victoria|mbuna|african cichlid/i,
+    family: 'cichlids',
+    behavior: 'territorial-aggressive',
+    template: 'cichlid-aggressive',
+    priority: 40
+  },
+  {
+    name: 'Central and South American categories',
+    categoryPattern: /central|south american|new world/i,
+    family: 'cichlids',
+    behavior: 'semi-aggressive',
+    template: 'cichlid-aggressive',
+    priority: 30
+  },
+  {
+    name: 'Livebearer categories',
+    categoryPattern: /livebearer/i,
+    family: 'livebearers',
+    behavior: 'community-friendly',
+    template: 'livebearer-breeding',
+    priority: 30
+  },
+  {
+    name: 'Tetra categories',
+    categoryPattern: /tetra|characin/i,
+    family: 'tetras',
+    behavior: 'peaceful-schooling',
+    template: 'tetra-schooling',
+    priority: 30
+  },
+  {
+    name: 'Catfish categories',
+    categoryPattern: /catfish|pleco|corydoras/i,
+    family: 'catfish',
+    behavior: 'bottom-dwelling',
+    template: 'catfish-bottom',
+    priority: 30
+  },
+  {
+    name: 'Loach categories',
+    categoryPattern: /loach/i,
+    family: 'loaches',
+    behavior: 'bottom-dwelling',
+    template: 'catfish-bottom',
+    priority: 30
+  },
+  {
+    name: 'Barb categories',
+    categoryPattern: /\bbarbs?\b/i,
+    family: 'barbs',
+    behavior: 'peaceful-schooling',
+    template: 'tetra-schooling',
+    priority: 30
+  },
+  {
+    name: 'Danio categories',
+    categoryPattern: /danio|rasbora/i,
+    family: 'danios',
+    behavior: 'peaceful-schooling',
+    template: 'tetra-schooling',
+    priority: 30
+  },
+  {
+    name: 'Gourami categories',
+    categoryPattern: /gourami|anabantoid|labyrinth|betta/i,
+    family: 'gouramis',
+    behavior: 'surface-dwelling',
+    template: 'community-standard',
+    priority: 30
+  },
+  {
+    name: 'Rainbowfish categories',
+    categoryPattern: /rainbow/i,
+    family: 'rainbowfish',
+    behavior: 'peaceful-schooling',
+    template: 'community-standard',
+    priority: 30
+  },
+  {
+    name: 'Generic cichlid categories',
+    categoryPattern: /cichlid/i,
+    family: 'cichlids',
+    behavior: 'semi-aggressive',
+    template: 'cichlid-aggressive',
+    priority: 20
+  }
+];
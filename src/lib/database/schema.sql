@@ -7,9 +7,12 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 -- Processing Jobs table
 CREATE TABLE processing_jobs (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    parent_job_id UUID REFERENCES processing_jobs(id) ON DELETE SET NULL,
     categories TEXT[] NOT NULL,
+    products JSONB NOT NULL DEFAULT '[]',
     batch_size INTEGER NOT NULL DEFAULT 25,
     concurrent INTEGER NOT NULL DEFAULT 5,
+    retries INTEGER,
     status TEXT NOT NULL CHECK (status IN ('pending', 'running', 'paused', 'completed', 'failed', 'cancelled')),
     config JSONB NOT NULL,
     progress JSONB NOT NULL DEFAULT '{
@@ -18,6 +21,12 @@ CREATE TABLE processing_jobs (
         "failed": 0,
         "percentage": 0
     }',
+    checkpoint JSONB,
+    skipped_products JSONB,
+    usage JSONB, -- Running token totals: promptTokens, completionTokens, totalTokens
+    budget NUMERIC(10,2), -- USD cap; the job pauses once progress.cost reaches it
+    force_regenerate BOOLEAN NOT NULL DEFAULT FALSE, -- Bypass the generation cache
+    delta JSONB, -- Delta jobs only: counts of new, changed, stale and unchanged products
     started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     completed_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -69,6 +78,7 @@ CREATE TABLE ai_generated_content (
     related_products JSONB NOT NULL,
     breeding JSONB NOT NULL,
     metadata JSONB NOT NULL,
+    confidence TEXT CHECK (confidence IN ('high', 'medium', 'low', 'unscored')),
     validation_score INTEGER CHECK (validation_score >= 0 AND validation_score <= 100),
     is_approved BOOLEAN DEFAULT FALSE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -99,12 +109,14 @@ CREATE TABLE content_validations (
 -- Indexes for better performance
 CREATE INDEX idx_processing_jobs_status ON processing_jobs(status);
 CREATE INDEX idx_processing_jobs_created_at ON processing_jobs(created_at);
+CREATE INDEX idx_processing_jobs_parent_job_id ON processing_jobs(parent_job_id);
 CREATE INDEX idx_processing_errors_job_id ON processing_errors(job_id);
 CREATE INDEX idx_processing_errors_error_type ON processing_errors(error_type);
 CREATE INDEX idx_products_categories ON products USING GIN(categories);
 CREATE INDEX idx_products_name ON products(name);
 CREATE INDEX idx_ai_content_product_id ON ai_generated_content(product_id);
 CREATE INDEX idx_ai_content_job_id ON ai_generated_content(job_id);
+CREATE INDEX idx_ai_content_validation_score ON ai_generated_content(validation_score);
 CREATE INDEX idx_job_progress_job_id ON job_progress_updates(job_id);
 CREATE INDEX idx_job_progress_created_at ON job_progress_updates(created_at);
 CREATE INDEX idx_content_validations_content_id ON content_validations(content_id);
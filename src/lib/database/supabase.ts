@@ -1,11 +1,13 @@
 import { createClient } from '@supabase/supabase-js';
-import { ProcessingJob, ProcessingError, AISearchContent } from '@/types/content';
+import { ProcessingJob, ProcessingError, AISearchContent, GenerationRecord, Product } from '@/types/content';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
 const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
 
 export const supabase = createClient(supabaseUrl, supabaseKey);
 
+const GENERATION_RECORD_CHUNK = 200;
+
 export class DatabaseClient {
   // Job Management
   async createJob(jobData: Omit<ProcessingJob, 'id'>): Promise<ProcessingJob> {
@@ -15,9 +17,16 @@ export class DatabaseClient {
         categories: jobData.categories,
         batch_size: jobData.batchSize,
         concurrent: jobData.concurrent,
+        retries: jobData.retries,
+        parent_job_id: jobData.parentJobId,
         status: jobData.status,
         config: jobData.config,
-        progress: jobData.progress
+        progress: jobData.progress,
+        products: jobData.products,
+        started_at: jobData.startedAt,
+        budget: jobData.budget,
+        force_regenerate: jobData.forceRegenerate ?? false,
+        delta: jobData.delta
       })
       .select()
       .single();
@@ -31,7 +40,12 @@ export class DatabaseClient {
 
     if (updates.status) dbUpdates.status = updates.status;
     if (updates.progress) dbUpdates.progress = updates.progress;
+    if (updates.startedAt) dbUpdates.started_at = updates.startedAt;
     if (updates.completedAt) dbUpdates.completed_at = updates.completedAt;
+    if (updates.checkpoint) dbUpdates.checkpoint = updates.checkpoint;
+    if (updates.skippedProducts) dbUpdates.skipped_products = updates.skippedProducts;
+    if (updates.usage) dbUpdates.usage = updates.usage;
+    if ('budget' in updates) dbUpdates.budget = updates.budget ?? null;
 
     const { data, error } = await supabase
       .from('processing_jobs')
@@ -119,8 +133,10 @@ export class DatabaseClient {
   async saveGeneratedContent(
     jobId: string,
     content: AISearchContent
-  ): Promise<void> {
-    const { error } = await supabase
+  ): Promise<string> {
+    const { validation, qualityScore } = content.metadata;
+
+    const { data, error } = await supabase
       .from('ai_generated_content')
       .insert({
         product_id: content.productId,
@@ -135,11 +151,42 @@ export class DatabaseClient {
         related_products: content.relatedProducts,
         breeding: content.breeding,
         metadata: content.metadata,
-        validation_score: parseInt(content.metadata.confidence === 'high' ? '90' :
-                                 content.metadata.confidence === 'medium' ? '75' : '60')
-      });
+        confidence: content.metadata.confidence,
+        validation_score: qualityScore ?? validation?.score ?? null
+      })
+      .select('id')
+      .single();
 
     if (error) throw error;
+
+    if (validation) {
+      const { error: validationError } = await supabase
+        .from('content_validations')
+        .insert({
+          content_id: data.id,
+          is_valid: validation.isValid,
+          score: validation.score,
+          errors: validation.errors,
+          warnings: validation.warnings
+        });
+
+      if (validationError) throw validationError;
+    }
+
+    return data.id;
+  }
+
+  // Latest-first content scoring at or below `maxScore`, for review
+  async getLowQualityContent(maxScore = 70, limit = 100): Promise<AISearchContent[]> {
+    const { data, error } = await supabase
+      .from('ai_generated_content')
+      .select('*')
+      .lte('validation_score', maxScore)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(row => this.transformContentFromDB(row));
   }
 
   async getGeneratedContent(productId: number): Promise<AISearchContent | null> {
@@ -159,6 +206,42 @@ export class DatabaseClient {
     return this.transformContentFromDB(data);
   }
 
+  /**
+   * Latest generation of each product, with the product's name, description
+   * and categories as cached when that content was saved
+   */
+  async getGenerationRecords(productIds: number[]): Promise<GenerationRecord[]> {
+    const records = new Map<number, GenerationRecord>();
+
+    // Chunked to keep the id filter within URL length limits
+    for (let i = 0; i < productIds.length; i += GENERATION_RECORD_CHUNK) {
+      const { data, error } = await supabase
+        .from('ai_generated_content')
+        .select('product_id, created_at, products(name, description, categories)')
+        .in('product_id', productIds.slice(i, i + GENERATION_RECORD_CHUNK))
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      for (const row of data || []) {
+        // Cached from the BigCommerce product when the content was saved
+        const product: Pick<Product, 'name' | 'description' | 'categories'> | undefined =
+          Array.isArray(row.products) ? row.products[0] : row.products;
+        if (!product || records.has(row.product_id)) continue;
+
+        records.set(row.product_id, {
+          productId: row.product_id,
+          name: product.name,
+          description: product.description || '',
+          categories: product.categories || [],
+          generatedAt: row.created_at
+        });
+      }
+    }
+
+    return [...records.values()];
+  }
+
   // Progress Updates
   async addProgressUpdate(
     jobId: string,
@@ -282,15 +365,23 @@ export class DatabaseClient {
     return {
       id: dbJob.id,
       categories: dbJob.categories,
-      products: [], // Would be populated separately if needed
+      products: dbJob.products || [],
       config: dbJob.config,
       batchSize: dbJob.batch_size,
       concurrent: dbJob.concurrent,
+      retries: dbJob.retries ?? undefined,
       status: dbJob.status,
       progress: dbJob.progress,
       startedAt: dbJob.started_at,
       completedAt: dbJob.completed_at,
-      errors: [] // Would be populated separately if needed
+      errors: [], // Would be populated separately if needed
+      checkpoint: dbJob.checkpoint || undefined,
+      skippedProducts: dbJob.skipped_products || undefined,
+      parentJobId: dbJob.parent_job_id || undefined,
+      usage: dbJob.usage || undefined,
+      budget: dbJob.budget ?? undefined,
+      forceRegenerate: dbJob.force_regenerate || undefined,
+      delta: dbJob.delta || undefined
     };
   }
 
@@ -0,0 +1,126 @@
+import { AISearchContent, ContentConfig, LLMProviderName, Product } from '@/types/content';
+import { fishClassifier, resolveProductConfig } from '@/lib/classification/classifier';
+import { MODEL_PRICING } from '@/lib/ai/pricing';
+import { LLM_PROVIDERS } from '@/lib/ai/providers';
+import { isLocaleCode, LOCALE_PROFILES } from '@/lib/locale/profiles';
+import { jobStore } from './store';
+
+// Where a regeneration config came from, most specific first
+export type ConfigSource = 'content' | 'job' | 'classification';
+
+const VALIDATION_LEVELS: ContentConfig['validation'][] = ['strict', 'moderate', 'lenient'];
+
+// Settings no record tells us about
+const DEFAULT_SETTINGS: Pick<ContentConfig, 'aiModel' | 'validation'> = {
+  aiModel: 'gpt-4o',
+  validation: 'moderate'
+};
+
+/**
+ * Most recently saved content for a product in Supabase, when configured.
+ * Best effort: a lookup failure falls back to the job records.
+ */
+async function findSavedContent(productId: number): Promise<AISearchContent | null> {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL) return null;
+
+  try {
+    // Loaded lazily: the Supabase client throws at import without credentials
+    const { db } = await import('@/lib/database/supabase');
+    return await db.getGeneratedContent(productId);
+  } catch (error) {
+    console.error(`Failed to load saved content for product ${productId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * The config a product's content was last generated with. Content records
+ * the exact config it was generated with; older content only names its
+ * family, template and locale, which are laid over the config of the most
+ * recent job that included the product.
+ */
+export async function findLastConfig(
+  product: Product,
+  content?: AISearchContent | null
+): Promise<{ config: ContentConfig; source: ConfigSource }> {
+  const previous = content || await findSavedContent(product.productId);
+  if (previous?.metadata.config) {
+    return { config: previous.metadata.config, source: 'content' };
+  }
+
+  const jobs = await jobStore.getAllJobs();
+  const job = jobs
+    .filter(job => job.products.some(jobProduct => jobProduct.productId === product.productId))
+    .sort((a, b) => (b.startedAt || '').localeCompare(a.startedAt || ''))[0];
+
+  let config: ContentConfig;
+  let source: ConfigSource;
+  if (job) {
+    // The job's own copy of the product carries the classification it was generated with
+    const jobProduct = job.products.find(jobProduct => jobProduct.productId === product.productId)!;
+    config = { ...resolveProductConfig(jobProduct, job.config), autoClassify: false };
+    source = 'job';
+  } else {
+    const classification = product.classification || fishClassifier.classify(product);
+    config = {
+      family: classification.family,
+      behavior: classification.behavior,
+      templateType: classification.templateType,
+      ...DEFAULT_SETTINGS
+    };
+    source = 'classification';
+  }
+
+  if (previous) {
+    config = {
+      ...config,
+      family: previous.metadata.fishFamily,
+      templateType: previous.metadata.template,
+      ...(previous.metadata.locale && { locale: previous.metadata.locale })
+    };
+    source = 'content';
+  }
+
+  return { config, source };
+}
+
+/**
+ * Config for regenerating a product: the last config it was generated
+ * with, with any overrides from the request applied on top
+ */
+export async function resolveRegenerationConfig(
+  product: Product,
+  content?: AISearchContent | null,
+  overrides: Partial<ContentConfig> = {}
+): Promise<{ config: ContentConfig; source: ConfigSource }> {
+  const { config, source } = await findLastConfig(product, content);
+  return { config: resolveProductConfig(product, { ...config, ...overrides }), source };
+}
+
+/**
+ * Why config overrides from a request can't be used, or null if they can.
+ * Model, provider, validation and locale are looked up by name when the
+ * content is generated, so they must be ones we know.
+ */
+export function checkConfigOverrides(overrides: unknown): string | null {
+  if (overrides === undefined) return null;
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+    return 'Config overrides must be an object';
+  }
+
+  const { aiModel, provider, validation, locale } = overrides as Record<string, unknown>;
+  if (aiModel !== undefined && !(typeof aiModel === 'string' && Object.hasOwn(MODEL_PRICING, aiModel))) {
+    return `Unknown AI model: ${aiModel}`;
+  }
+  if (provider !== undefined && !LLM_PROVIDERS.includes(provider as LLMProviderName)) {
+    return `Unknown LLM provider: ${provider}`;
+  }
+  if (validation !== undefined && !VALIDATION_LEVELS.includes(validation as ContentConfig['validation'])) {
+    return `Validation must be one of ${VALIDATION_LEVELS.join(', ')}`;
+  }
+  if (locale !== undefined && !isLocaleCode(locale)) {
+    return `Locale must be one of ${Object.keys(LOCALE_PROFILES).join(', ')}`;
+  }
+
+  return null;
+}
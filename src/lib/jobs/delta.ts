@@ -0,0 +1,66 @@
+import { DeltaSummary, GenerationRecord, Product } from '@/types/content';
+import { generationCache } from './generation-cache';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The latest generation of each product: from ai_generated_content when
+ * Supabase is configured, otherwise from the local generation cache
+ */
+export async function findGenerationRecords(productIds: number[]): Promise<GenerationRecord[]> {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
+    const wanted = new Set(productIds);
+    return (await generationCache.getRecords()).filter(record => wanted.has(record.productId));
+  }
+
+  // Loaded lazily: the Supabase client throws at import without credentials
+  const { db } = await import('@/lib/database/supabase');
+  return db.getGenerationRecords(productIds);
+}
+
+function sameCategories(a: string[], b: string[]): boolean {
+  return a.length === b.length && [...a].sort().join('\n') === [...b].sort().join('\n');
+}
+
+/**
+ * The products a delta job should take: those never generated, those whose
+ * name, description or categories changed since, and those whose content is
+ * older than `maxContentAgeDays`
+ */
+export function selectDeltaProducts(
+  products: Product[],
+  records: GenerationRecord[],
+  maxContentAgeDays?: number,
+  now = Date.now()
+): { products: Product[]; summary: DeltaSummary } {
+  const byProductId = new Map(records.map(record => [record.productId, record]));
+  const summary: DeltaSummary = { maxContentAgeDays, new: 0, changed: 0, stale: 0, unchanged: 0 };
+  const selected: Product[] = [];
+  const seen = new Set<number>();
+
+  for (const product of products) {
+    // Products listed under several selected categories appear more than once
+    if (seen.has(product.productId)) continue;
+    seen.add(product.productId);
+
+    const record = byProductId.get(product.productId);
+    if (!record) {
+      summary.new += 1;
+    } else if (
+      record.name.trim() !== product.name.trim() ||
+      (record.description || '').trim() !== (product.description || '').trim() ||
+      !sameCategories(record.categories, product.categories)
+    ) {
+      summary.changed += 1;
+    } else if (maxContentAgeDays !== undefined && now - Date.parse(record.generatedAt) > maxContentAgeDays * DAY_MS) {
+      summary.stale += 1;
+    } else {
+      summary.unchanged += 1;
+      continue;
+    }
+
+    selected.push(product);
+  }
+
+  return { products: selected, summary };
+}
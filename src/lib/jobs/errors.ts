@@ -0,0 +1,28 @@
+import { ProcessingError } from '@/types/content';
+
+interface ProductProcessingErrorOptions {
+  retryable?: boolean;
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+// Error raised by the pipeline so the runner can record the right error type
+export class ProductProcessingError extends Error {
+  errorType: ProcessingError['errorType'];
+  retryable: boolean;
+  retryAfterMs?: number;
+  retryCount = 0;
+  maxRetries = 0;
+
+  constructor(
+    message: string,
+    errorType: ProcessingError['errorType'],
+    options: ProductProcessingErrorOptions = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'ProductProcessingError';
+    this.errorType = errorType;
+    this.retryable = options.retryable ?? true;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
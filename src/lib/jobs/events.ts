@@ -0,0 +1,133 @@
+import { JobUpdate, Product, ProcessingJob } from '@/types/content';
+
+export type ProductEventType = 'started' | 'retrying' | 'generated' | 'cached' | 'published' | 'failed';
+
+export type JobEvent =
+  | {
+      type: 'job_update';
+      jobId: string;
+      job: JobUpdate;
+    }
+  | {
+      type: 'product_event';
+      jobId: string;
+      event: ProductEventType;
+      productId: number;
+      productName: string;
+      message?: string;
+      timestamp: string;
+    };
+
+// Serialized once at publish time so replays send exactly what was sent live
+export interface SequencedJobEvent {
+  id: number;
+  jobId: string;
+  data: string;
+}
+
+type JobEventListener = (event: SequencedJobEvent) => void;
+
+/**
+ * In-process fan-out of job events with a replay buffer for reconnecting clients
+ */
+export class JobEventBus {
+  private buffer: SequencedJobEvent[] = [];
+  private listeners: Set<JobEventListener> = new Set();
+  private nextId = 1;
+  private bufferSize: number;
+
+  constructor(bufferSize = 1000) {
+    this.bufferSize = bufferSize;
+  }
+
+  publish(event: JobEvent): void {
+    const sequenced: SequencedJobEvent = {
+      id: this.nextId++,
+      jobId: event.jobId,
+      data: JSON.stringify(event)
+    };
+
+    this.buffer.push(sequenced);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.shift();
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(sequenced);
+      } catch (error) {
+        console.error('Job event listener failed:', error);
+      }
+    }
+  }
+
+  subscribe(listener: JobEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Events published after `lastEventId`, or null when the gap can't be
+   * replayed (evicted from the buffer, or ids reset by a server restart)
+   */
+  since(lastEventId: number): SequencedJobEvent[] | null {
+    const latestId = this.nextId - 1;
+    if (lastEventId > latestId) return null;
+    if (lastEventId === latestId) return [];
+
+    const oldestId = this.buffer[0]?.id ?? this.nextId;
+    if (lastEventId < oldestId - 1) return null;
+
+    return this.buffer.filter(event => event.id > lastEventId);
+  }
+}
+
+// Shared across route modules so the stream sees events from the runner
+declare global {
+  var jobEvents: JobEventBus | undefined;
+}
+
+export const jobEvents = global.jobEvents ?? (global.jobEvents = new JobEventBus());
+
+/**
+ * A job's live state without its products. Products carry full catalog
+ * descriptions, so sending them with every update would fill the replay
+ * buffer and every stream frame with the same catalog again and again.
+ */
+export function toJobUpdate(job: ProcessingJob): JobUpdate {
+  return {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    errors: job.errors,
+    usage: job.usage,
+    budget: job.budget,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    checkpoint: job.checkpoint,
+    skippedProducts: job.skippedProducts
+  };
+}
+
+export function publishJobUpdate(job: ProcessingJob): void {
+  jobEvents.publish({ type: 'job_update', jobId: job.id, job: toJobUpdate(job) });
+}
+
+export function publishProductEvent(
+  job: ProcessingJob,
+  product: Product,
+  event: ProductEventType,
+  message?: string
+): void {
+  jobEvents.publish({
+    type: 'product_event',
+    jobId: job.id,
+    event,
+    productId: product.productId,
+    productName: product.name,
+    ...(message && { message }),
+    timestamp: new Date().toISOString()
+  });
+}
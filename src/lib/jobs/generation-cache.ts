@@ -0,0 +1,141 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AISearchContent, ContentConfig, GenerationRecord, Product } from '@/types/content';
+import { PROMPT_VERSION } from '@/lib/ai/content-generator';
+import { getTemplate } from '@/lib/ai/templates';
+import { getStoreLocale } from '@/lib/locale/profiles';
+
+interface CacheEntry {
+  fingerprint: string;
+  content: AISearchContent;
+  product: Pick<Product, 'name' | 'description' | 'categories'>; // As it was when the content was generated
+  cachedAt: string;
+}
+
+/**
+ * Hash of everything that shapes a product's generated content: the
+ * product fields the prompt and classifier read, the resolved config, the
+ * prompt version and the template's prompts and validation rules. Any
+ * change to one of them means the content is regenerated.
+ */
+export function contentFingerprint(product: Product, config: ContentConfig): string {
+  const inputs = {
+    promptVersion: PROMPT_VERSION,
+    product: {
+      name: product.name,
+      categories: [...product.categories].sort(),
+      description: product.description,
+      brand: product.brand?.name
+    },
+    // Defaults resolved, so changing LLM_PROVIDER or STORE_LOCALE invalidates the cache
+    config: {
+      family: config.family,
+      behavior: config.behavior,
+      templateType: config.templateType,
+      provider: config.provider || process.env.LLM_PROVIDER || 'openai',
+      aiModel: config.aiModel,
+      validation: config.validation,
+      locale: config.locale || getStoreLocale()
+    },
+    template: getTemplate(config.templateType)
+  };
+
+  return createHash('sha256').update(JSON.stringify(inputs)).digest('hex');
+}
+
+/**
+ * Published content by product, kept in a JSON file with the fingerprint it
+ * was generated from. Jobs reuse it instead of regenerating while the
+ * fingerprint still matches.
+ */
+export class GenerationCache {
+  private filePath: string;
+  private entries: Record<number, CacheEntry> = {};
+  private loading: Promise<Record<number, CacheEntry>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath = process.env.GENERATION_CACHE_PATH || './data/generation-cache.json') {
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * Content last published for the product, if it was generated from the same inputs
+   */
+  async get(product: Product, config: ContentConfig): Promise<AISearchContent | null> {
+    const entries = await this.load();
+    const entry = entries[product.productId];
+    if (!entry || entry.fingerprint !== contentFingerprint(product, config)) return null;
+
+    return structuredClone(entry.content);
+  }
+
+  async set(product: Product, config: ContentConfig, content: AISearchContent): Promise<void> {
+    const entries = await this.load();
+    entries[product.productId] = {
+      fingerprint: contentFingerprint(product, config),
+      content: structuredClone(content),
+      product: { name: product.name, description: product.description, categories: [...product.categories] },
+      cachedAt: new Date().toISOString()
+    };
+    await this.save();
+  }
+
+  /**
+   * Every cached product as it was when its content was generated
+   */
+  async getRecords(): Promise<GenerationRecord[]> {
+    const entries = await this.load();
+    // Entries cached without a product snapshot can't be compared, so their products count as new
+    return Object.values(entries)
+      .filter(entry => entry.product)
+      .map(entry => ({
+        productId: entry.content.productId,
+        ...structuredClone(entry.product),
+        generatedAt: entry.content.metadata.generatedAt || entry.cachedAt
+      }));
+  }
+
+  private load(): Promise<Record<number, CacheEntry>> {
+    if (!this.loading) {
+      this.loading = this.readFile();
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<Record<number, CacheEntry>> {
+    try {
+      this.entries = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read generation cache at ${this.filePath}:`, error);
+      }
+      this.entries = {};
+    }
+
+    return this.entries;
+  }
+
+  private async save(): Promise<void> {
+    // Serialize writes so concurrent products never interleave on disk
+    const write = this.writeQueue.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(this.entries), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    });
+
+    this.writeQueue = write.catch(error => {
+      console.error(`Failed to write generation cache at ${this.filePath}:`, error);
+    });
+
+    return write;
+  }
+}
+
+// Shared across route modules so every job sees the same cache
+declare global {
+  var generationCache: GenerationCache | undefined;
+}
+
+export const generationCache = global.generationCache ?? (global.generationCache = new GenerationCache());
@@ -0,0 +1,172 @@
+import { APIConnectionTimeoutError } from 'openai';
+import { AISearchContent, Product, ProcessingJob } from '@/types/content';
+import { AIContentGenerator, AIResponseFormatError } from '@/lib/ai/content-generator';
+import { OpenAIAPIError, OpenAIConnectionError } from '@/lib/ai/providers';
+import { ContentValidationError } from '@/lib/ai/validator';
+import { assessContent } from '@/lib/ai/quality';
+import { addUsage } from '@/lib/ai/usage';
+import { calculateCost } from '@/lib/ai/pricing';
+import { CatalystClient } from '@/lib/catalyst/client';
+import { populateStorageFromGeneration } from '@/lib/catalyst/json-storage';
+import { resolveProductConfig } from '@/lib/classification/classifier';
+import { productRecommender } from '@/lib/recommendations/recommender';
+import { publishProductEvent } from './events';
+import { generationCache } from './generation-cache';
+import { ProductProcessingError } from './errors';
+import { withRetry } from './retry';
+
+const RETRYABLE_STATUSES = new Set([408, 409, 429]);
+
+function classifyGenerationError(error: unknown): ProductProcessingError {
+  const message = error instanceof Error ? error.message : 'Failed to generate content';
+  const cause = error instanceof Error && error.cause ? error.cause : error;
+
+  if (cause instanceof OpenAIAPIError) {
+    return new ProductProcessingError(message, 'ai-generation', {
+      retryable: RETRYABLE_STATUSES.has(cause.status) || cause.status >= 500,
+      retryAfterMs: cause.retryAfterMs,
+      cause
+    });
+  }
+
+  if (cause instanceof AIResponseFormatError || cause instanceof ContentValidationError) {
+    return new ProductProcessingError(message, 'validation', { cause });
+  }
+
+  // Providers wrap connection failures and timeouts; other TypeErrors are bugs and fail straight away
+  if (cause instanceof OpenAIConnectionError || cause instanceof APIConnectionTimeoutError) {
+    return new ProductProcessingError(message, 'network', { cause });
+  }
+
+  // Anything else (e.g. a missing API key) won't fix itself on retry
+  return new ProductProcessingError(message, 'ai-generation', { retryable: false, cause });
+}
+
+function classifyPublishError(error: unknown): ProductProcessingError {
+  if (error instanceof ProductProcessingError) return error;
+
+  const message = error instanceof Error ? error.message : 'Failed to publish content';
+  return new ProductProcessingError(message, 'deployment', { cause: error });
+}
+
+/**
+ * Keep generated content and its validation results in Supabase so
+ * low-quality content can be queried later. Best effort: the storefront
+ * publish doesn't depend on it.
+ */
+async function saveContentRecord(job: ProcessingJob, product: Product, content: AISearchContent): Promise<void> {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL) return;
+
+  try {
+    // Loaded lazily: the Supabase client throws at import without credentials
+    const { db } = await import('@/lib/database/supabase');
+    await db.cacheProducts([product]);
+    await db.saveGeneratedContent(job.id, content);
+  } catch (error) {
+    console.error(`Failed to save generated content for ${product.name}:`, error);
+  }
+}
+
+/**
+ * Generate, publish and store content for a single product
+ */
+export async function processProduct(
+  product: Product,
+  job: ProcessingJob,
+  signal?: AbortSignal
+): Promise<void> {
+  const onRetry = (error: ProductProcessingError, delayMs: number) => {
+    console.log(`🔁 Retrying ${product.name} (${error.retryCount}/${error.maxRetries}) in ${delayMs}ms: ${error.message}`);
+    publishProductEvent(job, product, 'retrying', `${error.errorType}: ${error.message}`);
+  };
+
+  const config = resolveProductConfig(product, job.config);
+
+  // Unchanged since its content was last published: reuse it rather than regenerate and republish
+  if (!job.forceRegenerate) {
+    const cached = await generationCache.get(product, config);
+    if (cached) {
+      await populateStorageFromGeneration(product.productId, cached, product);
+
+      job.progress.cacheHits = (job.progress.cacheHits ?? 0) + 1;
+      console.log(`♻️ Reused cached content for: ${product.name}`);
+      publishProductEvent(job, product, 'cached');
+      return;
+    }
+  }
+
+  // Generate AI content
+  const generator = new AIContentGenerator();
+  let aiContent: AISearchContent;
+  try {
+    aiContent = await withRetry(
+      async attempt => {
+        const generated = await generator.generateContent(product, config, signal);
+        const content = assessContent(generated, product, config, attempt);
+
+        // Content the validation level won't publish is regenerated like any other bad response
+        const { validation } = content.metadata;
+        if (validation && !validation.isValid) {
+          throw new ContentValidationError(validation);
+        }
+
+        return content;
+      },
+      { classify: classifyGenerationError, maxRetries: job.retries, signal, onRetry }
+    );
+  } finally {
+    // Attempts that failed or were retried still used tokens
+    const usage = generator.getUsage();
+    job.usage = addUsage(job.usage, usage);
+    job.progress.cost = (job.progress.cost ?? 0) + calculateCost(usage, config);
+  }
+
+  // Best effort: content without recommendations is still worth publishing
+  try {
+    aiContent.relatedProducts = await productRecommender.recommend(aiContent, product);
+  } catch (error) {
+    console.error(`Failed to recommend related products for ${product.name}:`, error);
+  }
+
+  const { validation, qualityScore, qualitySignals } = aiContent.metadata;
+  const issueCount = (validation ? validation.errors.length + validation.warnings.length : 0) +
+    (qualitySignals?.disagreements.length || 0);
+
+  console.log(`✅ Generated AI content for: ${product.name} (quality score ${qualityScore}, ${aiContent.metadata.confidence} confidence)`);
+  publishProductEvent(
+    job,
+    product,
+    'generated',
+    issueCount > 0 ? `Quality score ${qualityScore}, ${issueCount} issues flagged` : undefined
+  );
+
+  await saveContentRecord(job, product, aiContent);
+
+  // Store JSON files in memory for the JSON viewer
+  await populateStorageFromGeneration(product.productId, aiContent, product);
+
+  // A cancel that lands mid-generation shouldn't still publish
+  signal?.throwIfAborted();
+
+  // Publish to Catalyst storefront; only this step is retried on a deployment failure
+  const catalyst = new CatalystClient();
+  await withRetry(
+    async () => {
+      const publishSuccess = await catalyst.publishContent(aiContent, product);
+      if (!publishSuccess) {
+        throw new ProductProcessingError('Failed to publish content to Catalyst storefront', 'deployment');
+      }
+    },
+    { classify: classifyPublishError, maxRetries: job.retries, signal, onRetry }
+  );
+
+  console.log(`🚀 Published to Catalyst: ${product.name}`);
+  publishProductEvent(job, product, 'published');
+
+  // Best effort: without a cache entry the next job just regenerates it
+  try {
+    await generationCache.set(product, config, aiContent);
+  } catch (error) {
+    console.error(`Failed to cache generated content for ${product.name}:`, error);
+  }
+}
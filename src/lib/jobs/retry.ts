@@ -0,0 +1,95 @@
+import { ProcessingError } from '@/types/content';
+import { ProductProcessingError } from './errors';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const RETRY_POLICIES: Record<ProcessingError['errorType'], RetryPolicy> = {
+  'ai-generation': { maxRetries: 3, baseDelayMs: 2000, maxDelayMs: 30000 },
+  validation: { maxRetries: 2, baseDelayMs: 500, maxDelayMs: 5000 },
+  deployment: { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 15000 },
+  network: { maxRetries: 5, baseDelayMs: 1000, maxDelayMs: 60000 }
+};
+
+interface RetryOptions {
+  // Map whatever the operation threw onto a typed, possibly non-retryable error
+  classify: (error: unknown) => ProductProcessingError;
+  maxRetries?: number;
+  signal?: AbortSignal;
+  onRetry?: (error: ProductProcessingError, delayMs: number) => void | Promise<void>;
+}
+
+/**
+ * Exponential backoff with full jitter; a server-supplied Retry-After wins when longer
+ */
+export function getRetryDelay(policy: RetryPolicy, retryCount: number, retryAfterMs?: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retryCount - 1));
+  const jittered = Math.round(Math.random() * ceiling);
+
+  return retryAfterMs !== undefined ? Math.max(retryAfterMs, jittered) : jittered;
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run an operation, retrying per the policy for whichever error type it fails with.
+ * Each error type has its own retry count, so network retries don't use up the
+ * validation ones; `maxRetries` caps each type. The final error carries the
+ * retry count its type reached.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const retryCounts: Partial<Record<ProcessingError['errorType'], number>> = {};
+  let attempt = 1;
+
+  while (true) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+
+      const classified = options.classify(error);
+      const policy = RETRY_POLICIES[classified.errorType];
+      const maxRetries = Math.min(policy.maxRetries, options.maxRetries ?? policy.maxRetries);
+      const retryCount = retryCounts[classified.errorType] ?? 0;
+
+      classified.retryCount = retryCount;
+      classified.maxRetries = maxRetries;
+
+      if (!classified.retryable || retryCount >= maxRetries) {
+        throw classified;
+      }
+
+      retryCounts[classified.errorType] = retryCount + 1;
+      classified.retryCount = retryCount + 1;
+      attempt += 1;
+
+      const delayMs = getRetryDelay(policy, classified.retryCount, classified.retryAfterMs);
+      await options.onRetry?.(classified, delayMs);
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
@@ -0,0 +1,377 @@
+import { Product, ProcessingJob, ProcessingError, SkippedProduct } from '@/types/content';
+import { isOverBudget } from '@/lib/ai/pricing';
+import { processProduct } from './pipeline';
+import { ProductProcessingError } from './errors';
+import { jobStore } from './store';
+import { publishJobUpdate, publishProductEvent } from './events';
+
+// Match the processing_jobs column defaults
+const DEFAULT_BATCH_SIZE = 25;
+const DEFAULT_CONCURRENT = 5;
+
+export type ProductProcessor = (product: Product, job: ProcessingJob, signal: AbortSignal) => Promise<void>;
+
+export interface JobRunnerHooks {
+  onStatusChange?: (job: ProcessingJob) => void | Promise<void>;
+  onProductStart?: (job: ProcessingJob, product: Product) => void | Promise<void>;
+  onProductComplete?: (job: ProcessingJob, product: Product) => void | Promise<void>;
+  onProductFailed?: (job: ProcessingJob, product: Product, error: ProcessingError) => void | Promise<void>;
+  onBatchComplete?: (job: ProcessingJob) => void | Promise<void>;
+}
+
+interface JobRun {
+  job: ProcessingJob;
+  queue: Product[];
+  cursor: number; // Index of the next product to hand to a worker
+  processed: Set<number>;
+  inFlight: Map<number, Product>;
+  skipped: SkippedProduct[];
+  controller: AbortController;
+  loop: Promise<void> | null;
+}
+
+/**
+ * Bounded worker pool that processes a job's products in batches of
+ * `batchSize`, with up to `concurrent` products in flight at once.
+ */
+export class JobRunner {
+  private runs: Map<string, JobRun> = new Map();
+  private processor: ProductProcessor;
+  private hooks: JobRunnerHooks;
+
+  constructor(processor: ProductProcessor = processProduct, hooks: JobRunnerHooks = {}) {
+    this.processor = processor;
+    this.hooks = hooks;
+  }
+
+  /**
+   * Start a job, continuing from its checkpoint when it has one
+   */
+  async start(job: ProcessingJob): Promise<boolean> {
+    if (this.runs.has(job.id)) return false;
+
+    const queue = this.buildQueue(job);
+    const run: JobRun = {
+      job,
+      queue,
+      cursor: Math.min(job.checkpoint?.cursor ?? 0, queue.length),
+      processed: new Set(job.checkpoint?.processedProductIds ?? []),
+      inFlight: new Map(),
+      skipped: [],
+      controller: new AbortController(),
+      loop: null
+    };
+    this.runs.set(job.id, run);
+
+    if (job.checkpoint) {
+      console.log(`Resuming job ${job.id} at ${run.processed.size}/${queue.length} products`);
+    } else {
+      job.progress = {
+        total: queue.length,
+        completed: 0,
+        failed: 0,
+        percentage: 0
+      };
+      console.log(`Starting job ${job.id} with ${queue.length} products`);
+    }
+    job.startedAt = job.startedAt || new Date().toISOString();
+
+    await this.launch(run);
+    return true;
+  }
+
+  /**
+   * Stop handing out products; in-flight products finish and the cursor is checkpointed
+   */
+  async pause(job: ProcessingJob): Promise<boolean> {
+    const run = this.runs.get(job.id);
+
+    if (!run) {
+      // Left running by a restart: nothing is processing it, so just record the pause
+      if (job.status !== 'running' && job.status !== 'pending') return false;
+
+      job.status = 'paused';
+      await this.emit(this.hooks.onStatusChange, job);
+      return true;
+    }
+
+    if (run.job.status !== 'running') return false;
+
+    run.job.status = 'paused';
+    this.updateCheckpoint(run);
+    await this.emit(this.hooks.onStatusChange, run.job);
+    return true;
+  }
+
+  /**
+   * Continue a paused job, restarting it from its stored checkpoint if it isn't loaded
+   */
+  async resume(job: ProcessingJob): Promise<boolean> {
+    const run = this.runs.get(job.id);
+
+    // The budget has to be raised first, or the job would pause again after one product
+    if (isOverBudget(run?.job || job)) return false;
+
+    if (!run) {
+      if (job.status !== 'paused') return false;
+      return this.start(job);
+    }
+
+    if (run.job.status !== 'paused') return false;
+
+    await this.launch(run);
+    return true;
+  }
+
+  /**
+   * Abort in-flight generations and record every unfinished product as skipped
+   */
+  async cancel(job: ProcessingJob): Promise<boolean> {
+    const run = this.runs.get(job.id);
+
+    if (!run) {
+      if (job.status !== 'running' && job.status !== 'paused' && job.status !== 'pending') return false;
+
+      const processed = new Set(job.checkpoint?.processedProductIds ?? []);
+      job.status = 'cancelled';
+      job.completedAt = new Date().toISOString();
+      job.skippedProducts = this.buildQueue(job)
+        .filter(product => !processed.has(product.productId))
+        .map(product => ({ productId: product.productId, productName: product.name }));
+
+      await this.emit(this.hooks.onStatusChange, job);
+      return true;
+    }
+
+    if (run.job.status !== 'running' && run.job.status !== 'paused') return false;
+
+    run.job.status = 'cancelled';
+    run.job.completedAt = new Date().toISOString();
+    run.controller.abort();
+
+    // Workers release their aborted products before the skip list is taken
+    if (run.loop) await run.loop;
+
+    this.recordSkipped(run);
+    this.runs.delete(job.id);
+    await this.emit(this.hooks.onStatusChange, run.job);
+    return true;
+  }
+
+  /**
+   * Change a job's budget cap, or remove it with undefined
+   */
+  async setBudget(job: ProcessingJob, budget: number | undefined): Promise<void> {
+    const run = this.runs.get(job.id);
+    job.budget = budget;
+    if (run) run.job.budget = budget;
+
+    await this.emit(this.hooks.onStatusChange, run?.job || job);
+  }
+
+  isActive(jobId: string): boolean {
+    return this.runs.has(jobId);
+  }
+
+  private buildQueue(job: ProcessingJob): Product[] {
+    // Products listed under several selected categories appear more than once
+    const seen = new Set<number>();
+    return job.products.filter(product => {
+      if (seen.has(product.productId)) return false;
+      seen.add(product.productId);
+      return true;
+    });
+  }
+
+  private async launch(run: JobRun): Promise<void> {
+    run.job.status = 'running';
+    await this.emit(this.hooks.onStatusChange, run.job);
+
+    // Waiting on the previous loop prevents two loops sharing one cursor
+    const previous = run.loop || Promise.resolve();
+    const loop = previous
+      .then(() => this.runLoop(run))
+      .catch(error => console.error(`Job ${run.job.id} runner crashed:`, error))
+      .finally(() => {
+        if (run.loop === loop) run.loop = null;
+      });
+    run.loop = loop;
+  }
+
+  private async runLoop(run: JobRun): Promise<void> {
+    const { job } = run;
+
+    while (job.status === 'running' && run.cursor < run.queue.length) {
+      const batchEnd = Math.min(run.cursor + this.positiveOr(job.batchSize, DEFAULT_BATCH_SIZE), run.queue.length);
+      const workerCount = Math.min(this.positiveOr(job.concurrent, DEFAULT_CONCURRENT), batchEnd - run.cursor);
+
+      const workers = Array.from({ length: workerCount }, () => this.worker(run, batchEnd));
+      await Promise.all(workers);
+
+      console.log(`Job ${job.id} progress: ${job.progress.completed}/${job.progress.total} (${job.progress.percentage}%)`);
+      await this.emit(this.hooks.onBatchComplete, job);
+    }
+
+    if (job.status === 'running') {
+      job.status = job.progress.completed === 0 && job.progress.failed > 0 ? 'failed' : 'completed';
+      job.completedAt = new Date().toISOString();
+      console.log(`Job ${job.id} ${job.status}. Total: ${job.progress.completed} successful, ${job.progress.failed} failed.`);
+      this.runs.delete(job.id);
+      await this.emit(this.hooks.onStatusChange, job);
+    } else if (job.status === 'paused') {
+      // Nothing is in flight any more, so this checkpoint is exact
+      this.updateCheckpoint(run);
+      console.log(`Job ${job.id} paused at ${run.processed.size}/${run.queue.length} products`);
+      await this.emit(this.hooks.onStatusChange, job);
+    }
+  }
+
+  private async worker(run: JobRun, batchEnd: number): Promise<void> {
+    const { job } = run;
+
+    // Claiming the cursor synchronously guarantees each product is taken once
+    while (job.status === 'running' && run.cursor < batchEnd) {
+      const product = run.queue[run.cursor++];
+      if (run.processed.has(product.productId)) continue;
+
+      await this.processOne(run, product);
+    }
+  }
+
+  private async processOne(run: JobRun, product: Product): Promise<void> {
+    const { job } = run;
+    run.inFlight.set(product.productId, product);
+    await this.emit(this.hooks.onProductStart, job, product);
+
+    try {
+      await this.processor(product, job, run.controller.signal);
+      run.inFlight.delete(product.productId);
+      this.markProcessed(run, product);
+      job.progress.completed += 1;
+      this.updatePercentage(job);
+      await this.emit(this.hooks.onProductComplete, job, product);
+      await this.enforceBudget(run);
+    } catch (error) {
+      run.inFlight.delete(product.productId);
+
+      // Aborted by a cancel: the product is skipped, not failed
+      if (run.controller.signal.aborted) {
+        run.skipped.push({ productId: product.productId, productName: product.name });
+        return;
+      }
+
+      const processingError: ProcessingError = {
+        productId: product.productId,
+        productName: product.name,
+        errorType: error instanceof ProductProcessingError ? error.errorType : 'ai-generation',
+        message: error instanceof Error ? error.message : 'Failed to generate content',
+        timestamp: new Date().toISOString(),
+        retryCount: error instanceof ProductProcessingError ? error.retryCount : 0,
+        maxRetries: error instanceof ProductProcessingError ? error.maxRetries : 0
+      };
+
+      this.markProcessed(run, product);
+      job.errors.push(processingError);
+      job.progress.failed += 1;
+      this.updatePercentage(job);
+      console.log(`❌ Failed to process product: ${product.name} - ${processingError.message}`);
+      await this.emit(this.hooks.onProductFailed, job, product, processingError);
+      await this.enforceBudget(run);
+    }
+  }
+
+  private async enforceBudget(run: JobRun): Promise<void> {
+    const { job } = run;
+    if (job.status !== 'running' || !isOverBudget(job)) return;
+
+    console.log(`💰 Job ${job.id} reached its $${job.budget!.toFixed(2)} budget ($${job.progress.cost!.toFixed(2)} spent), pausing`);
+    await this.pause(job);
+  }
+
+  private markProcessed(run: JobRun, product: Product): void {
+    run.processed.add(product.productId);
+    this.updateCheckpoint(run);
+  }
+
+  private updateCheckpoint(run: JobRun): void {
+    // Products still in flight are re-queued if the job resumes from this checkpoint
+    const inFlightIndexes = [...run.inFlight.keys()]
+      .map(productId => run.queue.findIndex(p => p.productId === productId));
+
+    run.job.checkpoint = {
+      cursor: Math.min(run.cursor, ...inFlightIndexes),
+      processedProductIds: [...run.processed],
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  private recordSkipped(run: JobRun): void {
+    const remaining = run.queue
+      .slice(run.cursor)
+      .filter(product => !run.processed.has(product.productId))
+      .map(product => ({ productId: product.productId, productName: product.name }));
+
+    run.job.skippedProducts = [...run.skipped, ...remaining];
+    console.log(`Job ${run.job.id} cancelled, ${run.job.skippedProducts.length} products skipped`);
+  }
+
+  // A stored job missing a setting would otherwise give NaN batches that never advance the cursor
+  private positiveOr(value: number, fallback: number): number {
+    return Number.isFinite(value) ? Math.max(1, Math.floor(value)) : fallback;
+  }
+
+  private updatePercentage(job: ProcessingJob): void {
+    job.progress.percentage = job.progress.total > 0
+      ? Math.round((job.progress.completed / job.progress.total) * 100)
+      : 0;
+  }
+
+  private async emit<Args extends unknown[]>(
+    hook: ((...args: Args) => void | Promise<void>) | undefined,
+    ...args: Args
+  ): Promise<void> {
+    if (!hook) return;
+
+    try {
+      await hook(...args);
+    } catch (error) {
+      console.error('Job runner hook failed:', error);
+    }
+  }
+}
+
+// Shared across route modules so every route sees the same running jobs
+declare global {
+  var jobRunner: JobRunner | undefined;
+}
+
+export const jobRunner = global.jobRunner ?? (global.jobRunner = new JobRunner(processProduct, {
+  // Write-through to the job store so routes and restarts see live progress,
+  // and fan out to the event bus for streaming clients
+  onStatusChange: async job => {
+    publishJobUpdate(job);
+    await jobStore.updateJob(job.id, {
+      status: job.status,
+      progress: job.progress,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt,
+      checkpoint: job.checkpoint,
+      skippedProducts: job.skippedProducts,
+      usage: job.usage,
+      budget: job.budget
+    });
+  },
+  onProductStart: (job, product) => {
+    publishProductEvent(job, product, 'started');
+  },
+  onProductComplete: async job => {
+    publishJobUpdate(job);
+    await jobStore.updateJob(job.id, { progress: job.progress, checkpoint: job.checkpoint, usage: job.usage });
+  },
+  onProductFailed: async (job, product, error) => {
+    publishProductEvent(job, product, 'failed', error.message);
+    publishJobUpdate(job);
+    await jobStore.addJobError(job.id, error);
+    await jobStore.updateJob(job.id, { progress: job.progress, checkpoint: job.checkpoint, usage: job.usage });
+  }
+}));
@@ -0,0 +1,204 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ProcessingJob, ProcessingError } from '@/types/content';
+import type { DatabaseClient } from '@/lib/database/supabase';
+
+/**
+ * Persistence for processing jobs, shared by every job route and the runner
+ */
+export interface JobStore {
+  createJob(jobData: Omit<ProcessingJob, 'id'>): Promise<ProcessingJob>;
+  updateJob(jobId: string, updates: Partial<ProcessingJob>): Promise<ProcessingJob | null>;
+  getJob(jobId: string): Promise<ProcessingJob | null>;
+  getAllJobs(): Promise<ProcessingJob[]>;
+  deleteJob(jobId: string): Promise<void>;
+  addJobError(jobId: string, error: ProcessingError): Promise<void>;
+}
+
+export class SupabaseJobStore implements JobStore {
+  private client: DatabaseClient | null;
+
+  constructor(client?: DatabaseClient) {
+    this.client = client || null;
+  }
+
+  async createJob(jobData: Omit<ProcessingJob, 'id'>): Promise<ProcessingJob> {
+    const client = await this.getClient();
+    return client.createJob(jobData);
+  }
+
+  async updateJob(jobId: string, updates: Partial<ProcessingJob>): Promise<ProcessingJob | null> {
+    const client = await this.getClient();
+    const existing = await client.getJob(jobId);
+    if (!existing) return null;
+
+    const updated = await client.updateJob(jobId, updates);
+    updated.errors = await client.getJobErrors(jobId);
+    return updated;
+  }
+
+  async getJob(jobId: string): Promise<ProcessingJob | null> {
+    const client = await this.getClient();
+    const job = await client.getJob(jobId);
+    if (!job) return null;
+
+    job.errors = await client.getJobErrors(jobId);
+    return job;
+  }
+
+  async getAllJobs(): Promise<ProcessingJob[]> {
+    const client = await this.getClient();
+    const jobs = await client.getAllJobs();
+
+    return Promise.all(jobs.map(async job => ({
+      ...job,
+      errors: await client.getJobErrors(job.id)
+    })));
+  }
+
+  async deleteJob(jobId: string): Promise<void> {
+    const client = await this.getClient();
+    await client.deleteJob(jobId);
+  }
+
+  async addJobError(jobId: string, error: ProcessingError): Promise<void> {
+    const client = await this.getClient();
+    const { timestamp, ...errorData } = error;
+    await client.addJobError(jobId, errorData);
+  }
+
+  private async getClient(): Promise<DatabaseClient> {
+    // Loaded lazily: the Supabase client throws at import without credentials
+    if (!this.client) {
+      const { db } = await import('@/lib/database/supabase');
+      this.client = db;
+    }
+    return this.client;
+  }
+}
+
+/**
+ * Local JSON-file store for development and single-instance deployments
+ */
+export class FileJobStore implements JobStore {
+  private filePath: string;
+  private jobs: ProcessingJob[] = [];
+  private loading: Promise<ProcessingJob[]> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath = process.env.JOB_STORE_PATH || './data/jobs.json') {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async createJob(jobData: Omit<ProcessingJob, 'id'>): Promise<ProcessingJob> {
+    const jobs = await this.load();
+    const job: ProcessingJob = { ...structuredClone(jobData), id: uuidv4() };
+
+    jobs.unshift(job);
+    await this.save();
+    return structuredClone(job);
+  }
+
+  async updateJob(jobId: string, updates: Partial<ProcessingJob>): Promise<ProcessingJob | null> {
+    const jobs = await this.load();
+    const index = jobs.findIndex(j => j.id === jobId);
+    if (index === -1) return null;
+
+    jobs[index] = { ...jobs[index], ...structuredClone(updates), id: jobId };
+    await this.save();
+    return structuredClone(jobs[index]);
+  }
+
+  async getJob(jobId: string): Promise<ProcessingJob | null> {
+    const jobs = await this.load();
+    const job = jobs.find(j => j.id === jobId);
+    return job ? structuredClone(job) : null;
+  }
+
+  async getAllJobs(): Promise<ProcessingJob[]> {
+    const jobs = await this.load();
+    return structuredClone(jobs);
+  }
+
+  async deleteJob(jobId: string): Promise<void> {
+    const jobs = await this.load();
+    const index = jobs.findIndex(j => j.id === jobId);
+    if (index === -1) return;
+
+    jobs.splice(index, 1);
+    await this.save();
+  }
+
+  async addJobError(jobId: string, error: ProcessingError): Promise<void> {
+    const jobs = await this.load();
+    const job = jobs.find(j => j.id === jobId);
+    if (!job) return;
+
+    job.errors.push(structuredClone(error));
+    await this.save();
+  }
+
+  private load(): Promise<ProcessingJob[]> {
+    if (!this.loading) {
+      this.loading = this.readFile();
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<ProcessingJob[]> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const jobs: ProcessingJob[] = JSON.parse(raw);
+
+      // Nothing is processing these any more after a restart
+      for (const job of jobs) {
+        if (job.status === 'running' || job.status === 'pending') {
+          job.status = 'paused';
+        }
+      }
+
+      this.jobs = jobs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read job store at ${this.filePath}:`, error);
+      }
+      this.jobs = [];
+    }
+
+    return this.jobs;
+  }
+
+  private async save(): Promise<void> {
+    // Serialize writes so concurrent updates never interleave on disk
+    const write = this.writeQueue.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(this.jobs, null, 2), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    });
+
+    this.writeQueue = write.catch(error => {
+      console.error(`Failed to write job store at ${this.filePath}:`, error);
+    });
+
+    return write;
+  }
+}
+
+function createJobStore(): JobStore {
+  const driver = process.env.JOB_STORE || (process.env.NEXT_PUBLIC_SUPABASE_URL ? 'supabase' : 'file');
+
+  if (driver === 'supabase') {
+    return new SupabaseJobStore();
+  }
+
+  return new FileJobStore();
+}
+
+// Shared across route modules so every route reads the same jobs
+declare global {
+  var jobStore: JobStore | undefined;
+}
+
+export const jobStore = global.jobStore ?? (global.jobStore = createJobStore());
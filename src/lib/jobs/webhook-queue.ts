@@ -0,0 +1,153 @@
+import { JobStatus, ProcessingJob, Product } from '@/types/content';
+import { BigCommerceClient } from '@/lib/bigcommerce/client';
+import { ProductWebhookScope } from '@/lib/bigcommerce/webhooks';
+import { fishClassifier } from '@/lib/classification/classifier';
+import { getStoreLocale } from '@/lib/locale/profiles';
+import { findLastConfig } from './config-history';
+import { jobRunner } from './runner';
+import { jobStore } from './store';
+
+// Jobs that will still generate a product they haven't reached yet
+const QUEUED_STATUSES: JobStatus[] = ['pending', 'running'];
+
+const DEFAULT_DEBOUNCE_MS = 30_000;
+
+// A steady stream of edits still flushes after this many quiet periods
+const MAX_WAIT_MULTIPLIER = 10;
+
+/**
+ * Collects product webhooks and starts one single-product job per product
+ * once deliveries go quiet for `debounceMs`. A bulk catalog edit sends
+ * several webhooks per product; they collapse into one job, and products a
+ * queued job is still going to generate are left to that job.
+ *
+ * The debounce is an in-process timer that fires after the webhook has been
+ * answered, so it needs a long-running server (`next start`), like the job
+ * runner. On serverless hosting such as Vercel the function can be frozen
+ * before the timer fires, and the pending products are silently dropped.
+ */
+export class ProductWebhookQueue {
+  private pending: Map<number, Set<ProductWebhookScope>> = new Map();
+  private windowStartedAt: number | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private debounceMs: number;
+
+  constructor(debounceMs = parseInt(process.env.WEBHOOK_DEBOUNCE_MS || '') || DEFAULT_DEBOUNCE_MS) {
+    this.debounceMs = debounceMs;
+  }
+
+  enqueue(productId: number, scope: ProductWebhookScope): void {
+    const scopes = this.pending.get(productId) || new Set();
+    scopes.add(scope);
+    this.pending.set(productId, scopes);
+
+    this.windowStartedAt = this.windowStartedAt ?? Date.now();
+    const deadline = this.windowStartedAt + this.debounceMs * MAX_WAIT_MULTIPLIER;
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, Math.max(0, Math.min(this.debounceMs, deadline - Date.now())));
+  }
+
+  pendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Start jobs for everything pending now rather than waiting for quiet
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const batch = this.pending;
+    this.pending = new Map();
+    this.windowStartedAt = null;
+
+    // Chained so a slow flush never overlaps the next one's duplicate check
+    this.flushing = this.flushing
+      .then(() => this.startJobs(batch))
+      .catch(error => console.error('Failed to start webhook jobs:', error));
+    return this.flushing;
+  }
+
+  private async startJobs(batch: Map<number, Set<ProductWebhookScope>>): Promise<void> {
+    if (batch.size === 0) return;
+
+    const jobs = await jobStore.getAllJobs();
+    const queued = new Set(jobs
+      .filter(job => QUEUED_STATUSES.includes(job.status))
+      .flatMap(job => {
+        const processed = new Set(job.checkpoint?.processedProductIds ?? []);
+        return job.products.map(product => product.productId).filter(productId => !processed.has(productId));
+      }));
+
+    const bigcommerce = new BigCommerceClient();
+
+    for (const [productId, scopes] of batch) {
+      try {
+        if (queued.has(productId)) {
+          console.log(`🪝 Product ${productId} is already queued in a job, skipping webhook`);
+          continue;
+        }
+
+        // Webhooks only carry the id; the listing may have changed again or gone since
+        const product = await bigcommerce.getProduct(productId);
+        if (!product) {
+          console.log(`🪝 Product ${productId} no longer exists, skipping webhook`);
+          continue;
+        }
+
+        // Equipment, food and the like match no rule and fall through to the default
+        const classification = fishClassifier.classify(product);
+        if (!classification.rule) {
+          console.log(`🪝 ${product.name} isn't recognised as livestock, skipping webhook`);
+          continue;
+        }
+
+        const job = await this.startJob({ ...product, classification });
+        console.log(`🪝 Started job ${job.id} for ${product.name} (${[...scopes].join(', ')})`);
+      } catch (error) {
+        console.error(`Failed to start a webhook job for product ${productId}:`, error);
+      }
+    }
+  }
+
+  private async startJob(product: Product): Promise<ProcessingJob> {
+    // Model, validation and locale carry over from the product's last generation; the classification picks the rest
+    const { config } = await findLastConfig(product);
+
+    const job = await jobStore.createJob({
+      categories: product.categories,
+      products: [product],
+      config: { ...config, autoClassify: true, locale: config.locale || getStoreLocale() },
+      batchSize: 1,
+      concurrent: 1,
+      status: 'pending',
+      progress: {
+        total: 1,
+        completed: 0,
+        failed: 0,
+        percentage: 0
+      },
+      startedAt: new Date().toISOString(),
+      errors: []
+    });
+
+    await jobRunner.start(job);
+    return job;
+  }
+}
+
+// Shared across route modules so every delivery lands in the same debounce window
+declare global {
+  var productWebhookQueue: ProductWebhookQueue | undefined;
+}
+
+export const productWebhookQueue = global.productWebhookQueue ??
+  (global.productWebhookQueue = new ProductWebhookQueue());
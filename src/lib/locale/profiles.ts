@@ -0,0 +1,218 @@
+import { LocaleCode } from '@/types/content';
+import { UnitSystem } from '@/lib/ai/care-parameters';
+
+// Headings used when we lay out care facts for customers
+export interface LocaleLabels {
+  tankSize: string;
+  temperature: string;
+  ph: string;
+  careLevel: string;
+  temperament: string;
+  maxSize: string;
+  diet: string;
+  lifespan: string;
+  origin: string;
+  family: string;
+  quickCareFacts: string;
+  keyFeatures: string;
+}
+
+// How content is written and presented for one storefront market
+export interface LocaleProfile {
+  code: LocaleCode;
+  label: string;
+  language: string; // As named in translation prompts
+  units: UnitSystem;
+  currency: { code: string; symbol: string };
+  spelling: string; // Prompt instruction, with examples the model recognises
+  careFormats: { minTankSize: string; temperatureRange: string; maxSize: string }; // Prompt placeholders
+  labels: LocaleLabels;
+  keywords: string[]; // Appended to every product's search keywords
+  waterTypeKeywords: Record<'freshwater' | 'brackish' | 'saltwater', string[]>;
+}
+
+const ENGLISH_LABELS: LocaleLabels = {
+  tankSize: 'Tank Size',
+  temperature: 'Temperature',
+  ph: 'pH',
+  careLevel: 'Care Level',
+  temperament: 'Temperament',
+  maxSize: 'Max Size',
+  diet: 'Diet',
+  lifespan: 'Lifespan',
+  origin: 'Origin',
+  family: 'Family',
+  quickCareFacts: 'Quick Care Facts',
+  keyFeatures: 'Key Features'
+};
+
+export const LOCALE_PROFILES: Record<LocaleCode, LocaleProfile> = {
+  'en-GB': {
+    code: 'en-GB',
+    label: 'English (UK)',
+    language: 'British English',
+    units: 'uk',
+    currency: { code: 'GBP', symbol: '£' },
+    spelling: 'British English spelling and vocabulary (colour, behaviour, fibre, centimetres, litres)',
+    careFormats: {
+      minTankSize: 'X litres minimum',
+      temperatureRange: 'XX-XX°C (XX-XX°F)',
+      maxSize: 'X cm (X inches)'
+    },
+    labels: ENGLISH_LABELS,
+    keywords: ['aquarium', 'fish keeping', 'fish care'],
+    waterTypeKeywords: {
+      freshwater: ['tropical fish', 'freshwater'],
+      brackish: ['brackish', 'tropical fish'],
+      saltwater: ['marine fish', 'marine']
+    }
+  },
+  'en-US': {
+    code: 'en-US',
+    label: 'English (US)',
+    language: 'American English',
+    units: 'us',
+    currency: { code: 'USD', symbol: '$' },
+    spelling: 'American English spelling and vocabulary (color, behavior, fiber)',
+    careFormats: {
+      minTankSize: 'X gallons minimum',
+      temperatureRange: 'XX-XX°F (XX-XX°C)',
+      maxSize: 'X inches'
+    },
+    labels: ENGLISH_LABELS,
+    keywords: ['aquarium', 'fish care'],
+    waterTypeKeywords: {
+      freshwater: ['freshwater', 'tropical fish'],
+      brackish: ['brackish'],
+      saltwater: ['saltwater', 'marine fish']
+    }
+  },
+  'fr-FR': {
+    code: 'fr-FR',
+    label: 'Français',
+    language: 'French',
+    units: 'metric',
+    currency: { code: 'EUR', symbol: '€' },
+    spelling: 'French as written in France',
+    careFormats: {
+      minTankSize: 'X litres minimum',
+      temperatureRange: 'XX-XX°C',
+      maxSize: 'X cm'
+    },
+    labels: {
+      tankSize: 'Volume minimum',
+      temperature: 'Température',
+      ph: 'pH',
+      careLevel: 'Niveau de maintenance',
+      temperament: 'Tempérament',
+      maxSize: 'Taille adulte',
+      diet: 'Alimentation',
+      lifespan: 'Espérance de vie',
+      origin: 'Origine',
+      family: 'Famille',
+      quickCareFacts: 'Maintenance en bref',
+      keyFeatures: 'Points forts'
+    },
+    keywords: ['aquarium', 'aquariophilie', "poisson d'aquarium"],
+    waterTypeKeywords: {
+      freshwater: ['eau douce', 'poisson tropical'],
+      brackish: ['eau saumâtre'],
+      saltwater: ['eau de mer', 'poisson marin']
+    }
+  },
+  'de-DE': {
+    code: 'de-DE',
+    label: 'Deutsch',
+    language: 'German',
+    units: 'metric',
+    currency: { code: 'EUR', symbol: '€' },
+    spelling: 'German as written in Germany',
+    careFormats: {
+      minTankSize: 'mindestens X Liter',
+      temperatureRange: 'XX-XX°C',
+      maxSize: 'X cm'
+    },
+    labels: {
+      tankSize: 'Mindestbeckengröße',
+      temperature: 'Temperatur',
+      ph: 'pH-Wert',
+      careLevel: 'Schwierigkeitsgrad',
+      temperament: 'Verhalten',
+      maxSize: 'Endgröße',
+      diet: 'Ernährung',
+      lifespan: 'Lebenserwartung',
+      origin: 'Herkunft',
+      family: 'Familie',
+      quickCareFacts: 'Pflege auf einen Blick',
+      keyFeatures: 'Besonderheiten'
+    },
+    keywords: ['Aquarium', 'Aquaristik', 'Zierfisch'],
+    waterTypeKeywords: {
+      freshwater: ['Süßwasser', 'Tropenfisch'],
+      brackish: ['Brackwasser'],
+      saltwater: ['Meerwasser', 'Meerwasserfisch']
+    }
+  },
+  'es-ES': {
+    code: 'es-ES',
+    label: 'Español',
+    language: 'Spanish',
+    units: 'metric',
+    currency: { code: 'EUR', symbol: '€' },
+    spelling: 'Spanish as written in Spain',
+    careFormats: {
+      minTankSize: 'X litros como mínimo',
+      temperatureRange: 'XX-XX°C',
+      maxSize: 'X cm'
+    },
+    labels: {
+      tankSize: 'Acuario mínimo',
+      temperature: 'Temperatura',
+      ph: 'pH',
+      careLevel: 'Nivel de cuidado',
+      temperament: 'Temperamento',
+      maxSize: 'Tamaño adulto',
+      diet: 'Alimentación',
+      lifespan: 'Esperanza de vida',
+      origin: 'Origen',
+      family: 'Familia',
+      quickCareFacts: 'Cuidados básicos',
+      keyFeatures: 'Características principales'
+    },
+    keywords: ['acuario', 'acuariofilia', 'pez de acuario'],
+    waterTypeKeywords: {
+      freshwater: ['agua dulce', 'pez tropical'],
+      brackish: ['agua salobre'],
+      saltwater: ['agua salada', 'pez marino']
+    }
+  }
+};
+
+export function isLocaleCode(value: unknown): value is LocaleCode {
+  return typeof value === 'string' && Object.hasOwn(LOCALE_PROFILES, value);
+}
+
+// Locale for content that doesn't name one; we're a UK retailer
+export function getStoreLocale(): LocaleCode {
+  const configured = process.env.STORE_LOCALE;
+  return isLocaleCode(configured) ? configured : 'en-GB';
+}
+
+export function getLocaleProfile(code?: LocaleCode): LocaleProfile {
+  return LOCALE_PROFILES[code && isLocaleCode(code) ? code : getStoreLocale()];
+}
+
+/**
+ * Keywords every product gets in this locale, plus those for its water type
+ * such as "Freshwater" or "Saltwater (reef)". Unrecognised water types get
+ * none rather than a wrong guess.
+ */
+export function localizedKeywords(profile: LocaleProfile, waterType?: string): string[] {
+  const type = waterType?.toLowerCase() || '';
+  const waterKeywords = /salt|marine|reef/.test(type) ? profile.waterTypeKeywords.saltwater
+    : /brackish/.test(type) ? profile.waterTypeKeywords.brackish
+    : /fresh/.test(type) ? profile.waterTypeKeywords.freshwater
+    : [];
+
+  return [...profile.keywords, ...waterKeywords];
+}
@@ -0,0 +1,162 @@
+import { AISearchContent, Product, ProductReference } from '@/types/content';
+import { BigCommerceClient } from '@/lib/bigcommerce/client';
+import {
+  ComplementaryProductRule,
+  DEFAULT_COMPLEMENTARY_RULES,
+  DRY_GOODS_CATEGORY_PATTERN
+} from './rules';
+
+type RelatedProducts = AISearchContent['relatedProducts'];
+
+const CATALOG_TTL_MS = 15 * 60 * 1000;
+const MAX_SPECIES_MATCHES = 6;
+const MAX_COMPLEMENTARY_PRODUCTS = 6;
+const PRODUCTS_PER_RULE = 2;
+
+// Words that say nothing about which species is meant
+const STOP_WORDS = new Set([
+  'a', 'and', 'the', 'of', 'in', 'with', 'or', 'other', 'fish', 'species', 'small', 'large',
+  'peaceful', 'tank', 'only', 'recommended', 'group', 'groups', 'variety'
+]);
+
+/**
+ * Reduce a name to comparable words: lower case, no punctuation, no stop
+ * words, and plurals folded so "Guppies" matches "Guppy"
+ */
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(word => {
+      if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+      if (word.endsWith('s') && !word.endsWith('ss') && word.length > 3) return word.slice(0, -1);
+      return word;
+    });
+}
+
+/**
+ * Turns the species names and care needs in generated content into links to
+ * products we actually stock
+ */
+export class ProductRecommender {
+  private rules: ComplementaryProductRule[];
+  private loadCatalog: () => Promise<Product[]>;
+  private catalog: { products: Product[]; loadedAt: number } | null = null;
+  private loading: Promise<Product[]> | null = null;
+
+  constructor(
+    rules: ComplementaryProductRule[] = DEFAULT_COMPLEMENTARY_RULES,
+    loadCatalog: () => Promise<Product[]> = () => new BigCommerceClient().getAllProducts()
+  ) {
+    this.rules = rules;
+    this.loadCatalog = loadCatalog;
+  }
+
+  async recommend(content: AISearchContent, product: Product): Promise<RelatedProducts> {
+    const catalog = (await this.getCatalog()).filter(item => item.productId !== product.productId);
+    const livestock = catalog.filter(item => !DRY_GOODS_CATEGORY_PATTERN.test(item.categories.join(' | ')));
+
+    return {
+      complementaryProducts: this.matchComplementary(content, catalog),
+      similarSpecies: this.matchSpecies(content.compatibility.similarSpecies || [], livestock, 'Similar species'),
+      compatibleSpecies: this.matchSpecies(content.compatibility.compatibleWith || [], livestock, 'Compatible tank mate')
+    };
+  }
+
+  /**
+   * Stocked products for each generated species name. A product matches when
+   * its name contains every word of the species name, or the species name
+   * contains every word of the product's common name.
+   */
+  private matchSpecies(names: string[], livestock: Product[], reason: string): ProductReference[] {
+    const matches: ProductReference[] = [];
+    const seen = new Set<number>();
+
+    for (const name of names) {
+      const wanted = nameTokens(name);
+      if (wanted.length === 0) continue;
+      const wantedSet = new Set(wanted);
+
+      for (const item of livestock) {
+        if (matches.length >= MAX_SPECIES_MATCHES) return matches;
+        if (seen.has(item.productId)) continue;
+
+        // The full name includes any scientific name in parentheses; the common name drops it
+        const fullName = new Set(nameTokens(item.name));
+        const commonName = nameTokens(item.name.replace(/\(.*?\)/g, ''));
+
+        const isMatch = wanted.every(word => fullName.has(word)) ||
+          (commonName.length > 0 && commonName.every(word => wantedSet.has(word)));
+
+        if (isMatch) {
+          seen.add(item.productId);
+          matches.push(this.toReference(item, reason));
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  private matchComplementary(content: AISearchContent, catalog: Product[]): ProductReference[] {
+    const matches: ProductReference[] = [];
+    const seen = new Set<number>();
+    const template = content.metadata.template;
+
+    for (const rule of this.rules) {
+      if (rule.templates && !rule.templates.includes(template)) continue;
+
+      const candidates = catalog.filter(item =>
+        !seen.has(item.productId) &&
+        rule.categoryPattern.test(item.categories.join(' | ')) &&
+        (!rule.namePattern || rule.namePattern.test(item.name))
+      );
+
+      for (const item of candidates.slice(0, PRODUCTS_PER_RULE)) {
+        if (matches.length >= MAX_COMPLEMENTARY_PRODUCTS) return matches;
+        seen.add(item.productId);
+        matches.push(this.toReference(item, rule.reason));
+      }
+    }
+
+    return matches;
+  }
+
+  private toReference(product: Product, reason: string): ProductReference {
+    return {
+      productId: product.productId,
+      name: product.name,
+      path: product.path,
+      reason
+    };
+  }
+
+  private async getCatalog(): Promise<Product[]> {
+    if (this.catalog && Date.now() - this.catalog.loadedAt < CATALOG_TTL_MS) {
+      return this.catalog.products;
+    }
+
+    // Concurrent workers share one catalog fetch
+    if (!this.loading) {
+      this.loading = this.loadCatalog()
+        .then(products => {
+          // Products listed under several categories come back more than once
+          const unique = [...new Map(products.map(item => [item.productId, item])).values()];
+          this.catalog = { products: unique, loadedAt: Date.now() };
+          return unique;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+}
+
+// Shared across route modules so every job reuses the cached catalog
+declare global {
+  var productRecommender: ProductRecommender | undefined;
+}
+
+export const productRecommender = global.productRecommender ?? (global.productRecommender = new ProductRecommender());
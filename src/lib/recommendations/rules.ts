@@ -0,0 +1,71 @@
+import { TemplateType } from '@/types/content';
+
+// Dry goods we might suggest with a fish, picked by catalog category
+export interface ComplementaryProductRule {
+  name: string;
+  categoryPattern: RegExp;
+  namePattern?: RegExp; // Narrows the category, e.g. sinking foods within Fish Food
+  templates?: TemplateType[]; // Only for these templates; every template when unset
+  reason: string; // Shown to shoppers alongside the product
+}
+
+// Categories that hold dry goods rather than livestock
+export const DRY_GOODS_CATEGORY_PATTERN =
+  /food|heat|decor|ornament|rock|filter|light|equipment|substrate|gravel|plant|accessor|treatment|test kit|net/i;
+
+/**
+ * Default rules for the Riverpark catalog. Template-specific rules come
+ * first so e.g. catfish get sinking wafers before generic flake food.
+ */
+export const DEFAULT_COMPLEMENTARY_RULES: ComplementaryProductRule[] = [
+  {
+    name: 'Sinking food',
+    categoryPattern: /food/i,
+    namePattern: /sinking|wafer|tablet|algae/i,
+    templates: ['catfish-bottom'],
+    reason: 'Sinking food that reaches bottom feeders'
+  },
+  {
+    name: 'Cichlid food',
+    categoryPattern: /food/i,
+    namePattern: /cichlid|spirulina/i,
+    templates: ['cichlid-aggressive', 'cichlid-peaceful'],
+    reason: 'Formulated for cichlids'
+  },
+  {
+    name: 'Frozen and live food',
+    categoryPattern: /food/i,
+    namePattern: /frozen|bloodworm|brine shrimp|daphnia|live/i,
+    templates: ['specialty-care', 'cichlid-peaceful'],
+    reason: 'Meaty food for fish that refuse or tire of flakes'
+  },
+  {
+    name: 'Rockwork and caves',
+    categoryPattern: /decor|ornament|rock/i,
+    namePattern: /rock|cave|stone|slate/i,
+    templates: ['cichlid-aggressive', 'catfish-bottom'],
+    reason: 'Caves and rockwork to break up territories and provide hiding places'
+  },
+  {
+    name: 'Breeding box',
+    categoryPattern: /accessor|equipment|breed/i,
+    namePattern: /breed|hatchery|fry/i,
+    templates: ['livebearer-breeding'],
+    reason: 'Protects newborn fry from adult fish'
+  },
+  {
+    name: 'Staple food',
+    categoryPattern: /food/i,
+    reason: 'Everyday staple diet'
+  },
+  {
+    name: 'Heater',
+    categoryPattern: /heat/i,
+    reason: 'Keeps tropical fish at a stable temperature'
+  },
+  {
+    name: 'Decor',
+    categoryPattern: /decor|ornament|plant/i,
+    reason: 'Cover and decoration that helps fish settle in'
+  }
+];
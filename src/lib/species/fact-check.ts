@@ -0,0 +1,94 @@
+import { AISearchContent, NumericRange, SpeciesReference, ValidationWarning } from '@/types/content';
+import {
+  formatLength,
+  formatTankSize,
+  formatTemperature,
+  lengthFromCm,
+  parsePh,
+  parseSizeCm,
+  parseTankLitres,
+  parseTemperatureC,
+  tankSizeFromLitres,
+  temperatureFromCelsius,
+  UnitSystem
+} from '@/lib/ai/care-parameters';
+
+// How far generated values may stray before they are flagged
+const TEMPERATURE_TOLERANCE_C = 1;
+const PH_TOLERANCE = 0.2;
+const TANK_SIZE_TOLERANCE = 0.9; // Tanks down to 90% of the reference minimum pass
+const BODY_SIZE_TOLERANCE = 0.3; // Adult size within 30% of the reference
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+function formatRange({ min, max }: NumericRange, unit = ''): string {
+  return `${round(min)}-${round(max)}${unit}`;
+}
+
+/**
+ * Reference values as prompt lines in the given units, e.g.
+ * "Temperature: 22-26°C (72-79°F)"
+ */
+export function describeReference(reference: SpeciesReference, units: UnitSystem): string[] {
+  const lines: string[] = [];
+  const { temperatureC, ph, minTankLitres, maxSizeCm } = reference;
+
+  if (temperatureC) lines.push(`Temperature: ${formatTemperature(temperatureFromCelsius(temperatureC), units)}`);
+  if (ph) lines.push(`pH: ${formatRange(ph)}`);
+  if (minTankLitres) lines.push(`Minimum tank: ${formatTankSize(tankSizeFromLitres(minTankLitres), units)}`);
+  if (maxSizeCm) lines.push(`Adult size: about ${formatLength(lengthFromCm(maxSizeCm), units)}`);
+
+  return lines;
+}
+
+/**
+ * Warnings for generated care parameters that fall outside the reference
+ */
+export function compareWithReference(content: AISearchContent, reference: SpeciesReference): ValidationWarning[] {
+  const warnings: ValidationWarning[] = [];
+  const care: Partial<AISearchContent['careRequirements']> = content.careRequirements || {};
+  const source = `reference for ${reference.scientificName}`;
+
+  const temperature = care.temperatureRange ? parseTemperatureC(care.temperatureRange) : null;
+  if (temperature && reference.temperatureC &&
+      (temperature.min < reference.temperatureC.min - TEMPERATURE_TOLERANCE_C ||
+       temperature.max > reference.temperatureC.max + TEMPERATURE_TOLERANCE_C)) {
+    warnings.push({
+      field: 'careRequirements.temperatureRange',
+      message: `${formatRange(temperature, '°C')} is outside the ${source} (${formatRange(reference.temperatureC, '°C')})`,
+      suggestion: 'Check the temperature range against a species profile'
+    });
+  }
+
+  const ph = care.phRange ? parsePh(care.phRange) : null;
+  if (ph && reference.ph &&
+      (ph.min < reference.ph.min - PH_TOLERANCE || ph.max > reference.ph.max + PH_TOLERANCE)) {
+    warnings.push({
+      field: 'careRequirements.phRange',
+      message: `pH ${formatRange(ph)} is outside the ${source} (${formatRange(reference.ph)})`,
+      suggestion: 'Check the pH range against a species profile'
+    });
+  }
+
+  // Only an undersized tank is a problem; recommending more room is fine
+  const tankLitres = care.minTankSize ? parseTankLitres(care.minTankSize) : null;
+  if (tankLitres && reference.minTankLitres && tankLitres < reference.minTankLitres * TANK_SIZE_TOLERANCE) {
+    warnings.push({
+      field: 'careRequirements.minTankSize',
+      message: `${Math.round(tankLitres)} litres is smaller than the ${source} (${reference.minTankLitres} litres)`,
+      suggestion: 'Recommend at least the reference tank size'
+    });
+  }
+
+  const sizeCm = care.maxSize ? parseSizeCm(care.maxSize) : null;
+  if (sizeCm && reference.maxSizeCm &&
+      Math.abs(sizeCm - reference.maxSizeCm) > reference.maxSizeCm * BODY_SIZE_TOLERANCE) {
+    warnings.push({
+      field: 'careRequirements.maxSize',
+      message: `${round(sizeCm)} cm differs from the ${source} (${reference.maxSizeCm} cm)`,
+      suggestion: 'Check the adult size against a species profile'
+    });
+  }
+
+  return warnings;
+}
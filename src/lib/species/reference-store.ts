@@ -0,0 +1,292 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { NumericRange, Product, SpeciesReference } from '@/types/content';
+import { DEFAULT_SPECIES_REFERENCES } from './seed';
+
+// Row that couldn't be imported, numbered from 1 in import order
+export interface ReferenceImportError {
+  row: number;
+  message: string;
+}
+
+export interface ReferenceImportResult {
+  references: SpeciesReference[];
+  errors: ReferenceImportError[];
+}
+
+const CSV_COLUMNS = [
+  'scientificName',
+  'synonyms',
+  'tempMinC',
+  'tempMaxC',
+  'phMin',
+  'phMax',
+  'minTankLitres',
+  'maxSizeCm',
+  'source'
+] as const;
+
+// Lower case words separated by single spaces, for comparing names
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(number) ? NaN : number;
+}
+
+function optionalRange(min: unknown, max: unknown): NumericRange | undefined {
+  const [low, high] = [optionalNumber(min), optionalNumber(max)];
+  if (low === undefined && high === undefined) return undefined;
+  return { min: low ?? NaN, max: high ?? NaN };
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+}
+
+/**
+ * Check an imported record, returning the reference or why it was rejected
+ */
+export function toSpeciesReference(raw: unknown): SpeciesReference | string {
+  const record = asRecord(raw) || {};
+  const scientificName = typeof record.scientificName === 'string' ? record.scientificName.trim() : '';
+  if (!/^[A-Z][a-z]+ [a-z.-]+/.test(scientificName)) {
+    return `"${scientificName}" is not a binomial scientific name`;
+  }
+
+  const synonyms: unknown[] = Array.isArray(record.synonyms)
+    ? record.synonyms
+    : typeof record.synonyms === 'string' ? record.synonyms.split(/[;|]/) : [];
+  const temperatureC = asRecord(record.temperatureC);
+  const ph = asRecord(record.ph);
+
+  const reference: SpeciesReference = {
+    scientificName,
+    synonyms: synonyms.map(synonym => String(synonym).trim()).filter(Boolean),
+    temperatureC: temperatureC
+      ? optionalRange(temperatureC.min, temperatureC.max)
+      : optionalRange(record.tempMinC, record.tempMaxC),
+    ph: ph
+      ? optionalRange(ph.min, ph.max)
+      : optionalRange(record.phMin, record.phMax),
+    minTankLitres: optionalNumber(record.minTankLitres),
+    maxSizeCm: optionalNumber(record.maxSizeCm),
+    ...(record.source ? { source: String(record.source) } : {})
+  };
+
+  for (const [field, value] of [['temperatureC', reference.temperatureC], ['ph', reference.ph]] as const) {
+    if (value && (isNaN(value.min) || isNaN(value.max) || value.min > value.max)) {
+      return `${field} needs a numeric min no greater than max`;
+    }
+  }
+  for (const [field, value] of [['minTankLitres', reference.minTankLitres], ['maxSizeCm', reference.maxSizeCm]] as const) {
+    if (value !== undefined && !(value > 0)) {
+      return `${field} must be a positive number`;
+    }
+  }
+
+  return reference;
+}
+
+function parseCSVLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Parse reference CSV with a header row naming any of: scientificName,
+ * synonyms (separated by ; or |), tempMinC, tempMaxC, phMin, phMax,
+ * minTankLitres, maxSizeCm, source
+ */
+export function parseReferenceCSV(text: string): ReferenceImportResult {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  const header = parseCSVLine(lines[0] || '');
+  const references: SpeciesReference[] = [];
+  const errors: ReferenceImportError[] = [];
+
+  const unknown = header.filter(column => !(CSV_COLUMNS as readonly string[]).includes(column));
+  if (!header.includes('scientificName') || unknown.length > 0) {
+    return {
+      references,
+      errors: [{ row: 0, message: `Header must include scientificName and only ${CSV_COLUMNS.join(', ')}` }]
+    };
+  }
+
+  lines.slice(1).forEach((line, index) => {
+    const values = parseCSVLine(line);
+    const record = Object.fromEntries(header.map((column, i) => [column, values[i]]));
+    const result = toSpeciesReference(record);
+
+    if (typeof result === 'string') {
+      errors.push({ row: index + 1, message: result });
+    } else {
+      references.push(result);
+    }
+  });
+
+  return { references, errors };
+}
+
+/**
+ * Species reference data keyed by scientific name and synonyms: the
+ * built-in defaults plus anything imported, which is kept in a JSON file
+ */
+export class SpeciesReferenceStore {
+  private filePath: string;
+  private imported: SpeciesReference[] = [];
+  private index: Map<string, SpeciesReference> | null = null;
+  private loading: Promise<Map<string, SpeciesReference>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath = process.env.SPECIES_REFERENCE_PATH || './data/species-reference.json') {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async getAll(): Promise<SpeciesReference[]> {
+    const index = await this.load();
+    return [...new Set(index.values())];
+  }
+
+  async findByName(name: string): Promise<SpeciesReference | null> {
+    const index = await this.load();
+    return index.get(normalizeName(name)) || null;
+  }
+
+  /**
+   * The reference whose name or synonym appears in the product name. The
+   * longest match wins, so "Cardinal Tetra" beats a bare "Tetra".
+   */
+  async findForProduct(product: Product): Promise<SpeciesReference | null> {
+    const index = await this.load();
+    const productName = ` ${normalizeName(product.name)} `;
+
+    let best: { key: string; reference: SpeciesReference } | null = null;
+    for (const [key, reference] of index) {
+      if (productName.includes(` ${key} `) && (!best || key.length > best.key.length)) {
+        best = { key, reference };
+      }
+    }
+    return best?.reference || null;
+  }
+
+  /**
+   * The first of `names` with a reference, e.g. a generated scientific name
+   * then its common names
+   */
+  async findByNames(names: string[]): Promise<SpeciesReference | null> {
+    for (const name of names.filter(Boolean)) {
+      const reference = await this.findByName(name);
+      if (reference) return reference;
+    }
+    return null;
+  }
+
+  /**
+   * Add or replace references by scientific name
+   */
+  async import(references: SpeciesReference[]): Promise<number> {
+    await this.load();
+
+    const byName = new Map(this.imported.map(reference => [normalizeName(reference.scientificName), reference]));
+    for (const reference of references) {
+      byName.set(normalizeName(reference.scientificName), reference);
+    }
+
+    this.imported = [...byName.values()];
+    this.index = this.buildIndex();
+    await this.save();
+    return references.length;
+  }
+
+  private load(): Promise<Map<string, SpeciesReference>> {
+    if (this.index) return Promise.resolve(this.index);
+    if (!this.loading) {
+      this.loading = this.readFile().then(() => {
+        this.index = this.buildIndex();
+        return this.index;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    try {
+      this.imported = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read species reference data at ${this.filePath}:`, error);
+      }
+      this.imported = [];
+    }
+  }
+
+  private buildIndex(): Map<string, SpeciesReference> {
+    const index = new Map<string, SpeciesReference>();
+
+    // Imported data goes last so it replaces the defaults, synonyms included
+    const imported = new Set(this.imported.map(reference => normalizeName(reference.scientificName)));
+    const references = [
+      ...DEFAULT_SPECIES_REFERENCES.filter(reference => !imported.has(normalizeName(reference.scientificName))),
+      ...this.imported
+    ];
+
+    for (const reference of references) {
+      for (const name of [reference.scientificName, ...reference.synonyms]) {
+        index.set(normalizeName(name), reference);
+      }
+    }
+    return index;
+  }
+
+  private async save(): Promise<void> {
+    // Serialize writes so concurrent imports never interleave on disk
+    const write = this.writeQueue.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(this.imported, null, 2), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    });
+
+    this.writeQueue = write.catch(error => {
+      console.error(`Failed to write species reference data at ${this.filePath}:`, error);
+    });
+
+    return write;
+  }
+}
+
+// Shared across route modules so imports are visible to running jobs
+declare global {
+  var speciesReferenceStore: SpeciesReferenceStore | undefined;
+}
+
+export const speciesReferenceStore = global.speciesReferenceStore ??
+  (global.speciesReferenceStore = new SpeciesReferenceStore());
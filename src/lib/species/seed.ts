@@ -0,0 +1,128 @@
+import { SpeciesReference } from '@/types/content';
+
+/**
+ * Built-in reference data for species we commonly stock. Imported data
+ * (see SpeciesReferenceStore) overrides these by scientific name.
+ */
+export const DEFAULT_SPECIES_REFERENCES: SpeciesReference[] = [
+  {
+    scientificName: 'Maylandia estherae',
+    synonyms: ['Pseudotropheus estherae', 'Metriaclima estherae', 'Red Zebra', 'Red Zebra Cichlid', 'Estherae Zebra'],
+    temperatureC: { min: 24, max: 28 },
+    ph: { min: 7.5, max: 8.8 },
+    minTankLitres: 200,
+    maxSizeCm: 13
+  },
+  {
+    scientificName: 'Labidochromis caeruleus',
+    synonyms: ['Yellow Lab', 'Electric Yellow Cichlid', 'Electric Yellow Lab'],
+    temperatureC: { min: 24, max: 28 },
+    ph: { min: 7.5, max: 8.5 },
+    minTankLitres: 200,
+    maxSizeCm: 10
+  },
+  {
+    scientificName: 'Mikrogeophagus ramirezi',
+    synonyms: ['Apistogramma ramirezi', 'Papiliochromis ramirezi', 'Ram Cichlid', 'German Blue Ram', 'Blue Ram'],
+    temperatureC: { min: 26, max: 30 },
+    ph: { min: 5.0, max: 7.0 },
+    minTankLitres: 75,
+    maxSizeCm: 7
+  },
+  {
+    scientificName: 'Pterophyllum scalare',
+    synonyms: ['Angelfish', 'Freshwater Angelfish'],
+    temperatureC: { min: 24, max: 30 },
+    ph: { min: 6.0, max: 7.5 },
+    minTankLitres: 150,
+    maxSizeCm: 15
+  },
+  {
+    scientificName: 'Paracheirodon innesi',
+    synonyms: ['Hyphessobrycon innesi', 'Neon Tetra'],
+    temperatureC: { min: 20, max: 26 },
+    ph: { min: 5.0, max: 7.5 },
+    minTankLitres: 54,
+    maxSizeCm: 4
+  },
+  {
+    scientificName: 'Paracheirodon axelrodi',
+    synonyms: ['Cheirodon axelrodi', 'Cardinal Tetra'],
+    temperatureC: { min: 23, max: 29 },
+    ph: { min: 4.0, max: 7.0 },
+    minTankLitres: 60,
+    maxSizeCm: 5
+  },
+  {
+    scientificName: 'Poecilia reticulata',
+    synonyms: ['Lebistes reticulatus', 'Guppy', 'Fancy Guppy'],
+    temperatureC: { min: 22, max: 28 },
+    ph: { min: 7.0, max: 8.5 },
+    minTankLitres: 38,
+    maxSizeCm: 6
+  },
+  {
+    scientificName: 'Xiphophorus maculatus',
+    synonyms: ['Platy', 'Southern Platyfish', 'Moonfish'],
+    temperatureC: { min: 20, max: 28 },
+    ph: { min: 7.0, max: 8.2 },
+    minTankLitres: 54,
+    maxSizeCm: 6
+  },
+  {
+    scientificName: 'Corydoras panda',
+    synonyms: ['Panda Cory', 'Panda Corydoras', 'Panda Catfish'],
+    temperatureC: { min: 20, max: 25 },
+    ph: { min: 6.0, max: 7.5 },
+    minTankLitres: 60,
+    maxSizeCm: 5
+  },
+  {
+    scientificName: 'Trichogaster lalius',
+    synonyms: ['Colisa lalia', 'Colisa lalius', 'Dwarf Gourami', 'Powder Blue Gourami'],
+    temperatureC: { min: 22, max: 28 },
+    ph: { min: 6.0, max: 7.5 },
+    minTankLitres: 57,
+    maxSizeCm: 9
+  },
+  {
+    scientificName: 'Betta splendens',
+    synonyms: ['Siamese Fighting Fish', 'Betta'],
+    temperatureC: { min: 24, max: 30 },
+    ph: { min: 6.0, max: 7.5 },
+    minTankLitres: 20,
+    maxSizeCm: 7
+  },
+  {
+    scientificName: 'Danio rerio',
+    synonyms: ['Brachydanio rerio', 'Zebra Danio', 'Zebrafish'],
+    temperatureC: { min: 18, max: 25 },
+    ph: { min: 6.5, max: 8.0 },
+    minTankLitres: 54,
+    maxSizeCm: 5
+  },
+  {
+    scientificName: 'Puntigrus tetrazona',
+    synonyms: ['Puntius tetrazona', 'Barbus tetrazona', 'Systomus tetrazona', 'Tiger Barb'],
+    temperatureC: { min: 20, max: 26 },
+    ph: { min: 6.0, max: 8.0 },
+    minTankLitres: 75,
+    maxSizeCm: 7
+  },
+  {
+    scientificName: 'Trigonostigma heteromorpha',
+    synonyms: ['Rasbora heteromorpha', 'Harlequin Rasbora'],
+    temperatureC: { min: 22, max: 27 },
+    ph: { min: 6.0, max: 7.5 },
+    minTankLitres: 54,
+    maxSizeCm: 5
+  },
+  {
+    scientificName: 'Carinotetraodon travancoricus',
+    synonyms: ['Pea Puffer', 'Dwarf Puffer', 'Malabar Puffer', 'Indian Dwarf Puffer'],
+    temperatureC: { min: 22, max: 28 },
+    ph: { min: 7.0, max: 8.0 },
+    minTankLitres: 20,
+    maxSizeCm: 3
+  }
+];
@@ -39,4 +39,10 @@ export function calculateETA(completed: number, total: number, startTime: string
   const remaining = total - completed;
 
   return remaining / rate;
-}
\ No newline at end of file
+}
+
+// US dollars to the cent; non-zero amounts that would round to $0.00 show as <$0.01
+export function formatCost(usd: number): string {
+  if (usd > 0 && usd < 0.01) return '<$0.01';
+  return `$${usd.toFixed(2)}`;
+}
@@ -18,6 +18,7 @@ export interface Product {
     altText: string;
   };
   path: string;
+  classification?: ProductClassification; // Set when the job auto-classifies products
 }
 
 // Fish family classifications
@@ -48,10 +49,19 @@ export interface ContentConfig {
   family: FishFamily;
   behavior: FishBehavior;
   templateType: TemplateType;
+  autoClassify?: boolean; // Pick family, behavior and template per product instead
+  provider?: LLMProviderName; // Defaults to LLM_PROVIDER, then openai
   aiModel: 'gpt-4o' | 'gpt-4' | 'gpt-4-turbo';
   validation: 'strict' | 'moderate' | 'lenient';
+  locale?: LocaleCode; // Defaults to STORE_LOCALE, then en-GB
 }
 
+// Storefront markets with their own units, spelling and keyword phrasing
+export type LocaleCode = 'en-GB' | 'en-US' | 'fr-FR' | 'de-DE' | 'es-ES';
+
+// Backends that can generate content
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'mock';
+
 // Template types for different fish families
 export type TemplateType =
   | 'cichlid-aggressive'
@@ -62,6 +72,9 @@ export type TemplateType =
   | 'community-standard'
   | 'specialty-care';
 
+// Parts of AISearchContent written by the model, which can be regenerated on their own
+export type ContentSection = 'basicInfo' | 'careRequirements' | 'compatibility' | 'aiContext' | 'breeding';
+
 // Generated AI search content structure
 export interface AISearchContent {
   productId: number;
@@ -86,11 +99,13 @@ export interface AISearchContent {
     temperament: string;
     socialNeeds: string;
     lifespan: string;
+    normalized?: CareParameters; // Numeric values parsed from the strings above, for filtering and unit conversion
   };
   compatibility: {
     compatibleWith: string[];
     avoidWith: string[];
     tankMateCategories: string[];
+    similarSpecies: string[]; // Generated names; relatedProducts has the ones we stock
   };
   aiContext: {
     whyPopular: string;
@@ -102,8 +117,9 @@ export interface AISearchContent {
     alternativeNames: string[];
   };
   relatedProducts: {
-    complementaryProducts: string[];
-    similarSpecies: string[];
+    complementaryProducts: ProductReference[]; // Dry goods: foods, heaters, decor
+    similarSpecies: ProductReference[];
+    compatibleSpecies: ProductReference[]; // Stocked tank mates from compatibility.compatibleWith
   };
   breeding: {
     breedingType: string;
@@ -117,9 +133,84 @@ export interface AISearchContent {
     sources: string[];
     fishFamily: FishFamily;
     template: TemplateType;
+    config?: ContentConfig; // The config this version was generated with, reused when it is regenerated
+    locale?: LocaleCode; // Units and spelling the content was written in
+    translation?: TranslationInfo; // Set on translated variants of generated content
+    validation?: ValidationResult;
+    qualityScore?: number; // 0-100, validation score adjusted by the quality signals
+    qualitySignals?: QualitySignals;
+    usage?: TokenUsage; // Every model call behind this content, including truncation and repair retries
+    repaired?: boolean; // A response behind this content failed the JSON schema and needed a repair round-trip
+    speciesReference?: SpeciesReference; // Grounded the prompt and fact-checked the care parameters
   };
 }
 
+// Where a translated variant came from
+export interface TranslationInfo {
+  sourceLocale: LocaleCode;
+  translatedAt: string;
+  sources: string[];
+  untranslatedFields: string[]; // Left in the source language because numbers or names didn't survive translation
+  usage?: TokenUsage;
+}
+
+// Evidence behind a piece of content's confidence rating
+export interface QualitySignals {
+  validationScore: number;
+  schemaConformant: boolean; // The model's response matched the JSON schema without a repair round-trip
+  attempts: number; // Generations it took to get publishable content
+  disagreements: string[]; // Where the content contradicts the product's classification
+}
+
+// A product from our catalog recommended alongside generated content
+export interface ProductReference {
+  productId: number;
+  name: string;
+  path: string;
+  reason: string;
+}
+
+export interface NumericRange {
+  min: number;
+  max: number;
+}
+
+// Care requirements as numbers; a field is absent when its string couldn't be parsed
+export interface CareParameters {
+  temperature?: { minC: number; maxC: number; minF: number; maxF: number };
+  ph?: NumericRange;
+  tankSize?: { litres: number; usGallons: number; ukGallons: number };
+  maxSize?: { cm: number; inches: number };
+  lifespanYears?: NumericRange;
+}
+
+// Known-good care parameters for a species, from our reference data
+export interface SpeciesReference {
+  scientificName: string;
+  synonyms: string[]; // Older scientific names and common names
+  temperatureC?: NumericRange;
+  ph?: NumericRange;
+  minTankLitres?: number;
+  maxSizeCm?: number; // Typical adult standard length
+  source?: string;
+}
+
+// Token counts reported by the model provider
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Expected usage and USD cost of a job before it runs
+export interface CostEstimate {
+  productCount: number;
+  aiModel: ContentConfig['aiModel'];
+  billed: boolean; // False for providers without per-token pricing
+  usage: TokenUsage;
+  estimatedCost: number;
+}
+
 // Generated species content for Quick Reference
 export interface SpeciesContent {
   productId: number;
@@ -142,16 +233,63 @@ export interface ProcessingJob {
   config: ContentConfig;
   batchSize: number;
   concurrent: number;
+  retries?: number; // Caps each error type's retry policy
   status: JobStatus;
   progress: {
     total: number;
     completed: number;
     failed: number;
     percentage: number;
+    cost?: number; // USD spent so far, from reported token usage
+    cacheHits?: number; // Completed products whose unchanged content was reused rather than regenerated
   };
+  budget?: number; // USD; the job pauses once progress.cost reaches it
+  forceRegenerate?: boolean; // Regenerate every product even when its cached content is still current
   startedAt?: string;
   completedAt?: string;
   errors: ProcessingError[];
+  checkpoint?: JobCheckpoint;
+  skippedProducts?: SkippedProduct[];
+  parentJobId?: string; // Set on follow-up jobs that retry another job's failures
+  delta?: DeltaSummary; // Set on delta jobs, which only take new, changed or stale products
+  usage?: TokenUsage; // Running total across every product, failed attempts included
+}
+
+// What live job updates carry: the job without its product list, which clients already have
+export type JobUpdate = Pick<
+  ProcessingJob,
+  'id' | 'status' | 'progress' | 'errors' | 'usage' | 'budget' | 'startedAt' | 'completedAt' | 'checkpoint' | 'skippedProducts'
+>;
+
+// Resume point recorded as products finish, so paused jobs continue where they left off
+export interface JobCheckpoint {
+  cursor: number;
+  processedProductIds: number[];
+  updatedAt: string;
+}
+
+// Products a cancelled job never finished
+export interface SkippedProduct {
+  productId: number;
+  productName: string;
+}
+
+// How a delta job's products compared with their last generation
+export interface DeltaSummary {
+  maxContentAgeDays?: number; // Content older than this counted as stale
+  new: number;
+  changed: number; // Name, description or categories differ from when the content was generated
+  stale: number;
+  unchanged: number; // Left out of the job
+}
+
+// The product as it was when its latest content was generated
+export interface GenerationRecord {
+  productId: number;
+  name: string;
+  description: string;
+  categories: string[];
+  generatedAt: string;
 }
 
 // Job status tracking
@@ -201,6 +339,7 @@ export interface JobProgress {
 
 // Fish categorization rules
 export interface FishCategorizationRule {
+  name: string;
   categoryPattern: RegExp;
   scientificNamePattern?: RegExp;
   commonNamePattern?: RegExp;
@@ -210,6 +349,14 @@ export interface FishCategorizationRule {
   priority: number;
 }
 
+// Per-product result of applying the categorization rules
+export interface ProductClassification {
+  family: FishFamily;
+  behavior: FishBehavior;
+  templateType: TemplateType;
+  rule?: string; // Name of the matching rule, absent when the default was used
+}
+
 // Template configuration
 export interface TemplateConfig {
   type: TemplateType;